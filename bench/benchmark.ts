@@ -0,0 +1,159 @@
+import { compile } from "../src/compiler";
+import { DialogueManager } from "../src/manager";
+import { hashText } from "../src/utils";
+import type { DialogueResource } from "../src/types";
+
+
+const DEFAULT_SIZE = 20000;
+const DEFAULT_RUNS = 5;
+
+
+type BenchmarkScenario = {
+    name: string;
+    // Write some raw dialogue with roughly this many lines
+    build: (size: number) => string;
+}
+
+type BenchmarkResult = {
+    name: string;
+    lines: number;
+    // The average time for one playthrough (in milliseconds)
+    time: number;
+    linesPerSecond: number;
+    // A hash of everything that was said and chosen (it should be the same between versions)
+    transcript: string;
+    error?: string;
+}
+
+
+const SCENARIOS: Array<BenchmarkScenario> = [
+    {
+        name: "Goto chain",
+        build: size => {
+            const lines: Array<string> = [];
+            for (let i = 0; i < size; i++) {
+                lines.push("# Title " + i, "=> Title " + (i + 1));
+            }
+            lines.push("# Title " + size, "Nathan: Made it to the end");
+            return lines.join("\n");
+        }
+    },
+    {
+        name: "Mutation chain",
+        build: size => {
+            const lines = ["# Start"];
+            for (let i = 0; i < size; i++) {
+                lines.push(i % 2 == 0 ? "set counter += 1" : "set total = total + counter");
+            }
+            lines.push("Nathan: {{counter}} and {{total}}");
+            return lines.join("\n");
+        }
+    },
+    {
+        name: "Conditions",
+        build: size => {
+            const lines = ["# Start"];
+            for (let i = 0; i < size / 4; i++) {
+                lines.push("if counter % 3 == " + (i % 3) + " and not is_done", "    set counter += 2", "else", "    set counter += 1");
+            }
+            lines.push("Nathan: {{counter}}");
+            return lines.join("\n");
+        }
+    },
+    {
+        name: "Dialogue and responses",
+        build: size => {
+            const lines = ["# Start"];
+            for (let i = 0; i < size / 4; i++) {
+                lines.push("Nathan: [[Hi|Hello|Howdy]] number {{counter}}", "- Keep going", "    set counter += 1", "- Stop [if counter < 0]");
+            }
+            lines.push("Nathan: Done after {{counter}}");
+            return lines.join("\n");
+        }
+    }
+];
+
+
+main(process.argv.slice(2));
+
+
+/**
+ * Run every scenario and print how quickly each one played through
+ * @param args An optional size and number of runs
+ */
+async function main(args: Array<string>): Promise<void> {
+    const size = parseInt(args[0] ?? "", 10) || DEFAULT_SIZE;
+    const runs = parseInt(args[1] ?? "", 10) || DEFAULT_RUNS;
+
+    console.log("Playing through each scenario " + runs + " times (about " + size + " lines each)\n");
+    for (const scenario of SCENARIOS) {
+        const result = await runScenario(scenario, size, runs);
+        console.log(formatResult(result));
+    }
+}
+
+
+/**
+ * Time a scenario
+ * @param scenario The scenario
+ * @param size Roughly how many lines of dialogue to generate
+ * @param runs How many times to play through it
+ * @returns The result
+ */
+async function runScenario(scenario: BenchmarkScenario, size: number, runs: number): Promise<BenchmarkResult> {
+    const resource = compile(scenario.build(size));
+    const result: BenchmarkResult = { name: scenario.name, lines: Object.keys(resource.lines).length, time: null, linesPerSecond: null, transcript: null };
+
+    try {
+        // Warm up first so that expressions are already compiled
+        result.transcript = await playThrough(resource);
+
+        const started = Date.now();
+        for (let i = 0; i < runs; i++) {
+            await playThrough(resource);
+        }
+        result.time = (Date.now() - started) / runs;
+        result.linesPerSecond = Math.round(result.lines / Math.max(result.time, 1) * 1000);
+    } catch (error) {
+        result.error = error.message;
+    }
+
+    return result;
+}
+
+
+/**
+ * Play from the first title to the end, always choosing the first response
+ * @param resource A dialogue resource
+ * @returns A hash of everything that was said and chosen
+ */
+async function playThrough(resource: DialogueResource): Promise<string> {
+    const manager = new DialogueManager({
+        defaultResource: resource,
+        gameStates: [{ counter: 0, total: 0, is_done: false }],
+        seed: 1,
+        historyLimit: 0
+    });
+
+    const transcript: Array<string> = [];
+    let line = await manager.getNextDialogueLine(Object.keys(resource.titles)[0]);
+    while (line != null) {
+        transcript.push(line.character + ": " + line.dialogue);
+        if (line.responses.length > 0) {
+            transcript.push("> " + line.responses[0].prompt);
+            line = await manager.chooseResponse(line.responses[0]);
+        } else {
+            line = await manager.getNextDialogueLine(line.nextId);
+        }
+    }
+
+    return hashText(transcript.join("\n"));
+}
+
+
+function formatResult(result: BenchmarkResult): string {
+    const details = result.error != null
+        ? "failed: " + result.error
+        : result.time.toFixed(1) + "ms per run, " + result.linesPerSecond + " lines/s, transcript " + result.transcript;
+    return result.name + " (" + result.lines + " lines): " + details;
+}
@@ -0,0 +1,101 @@
+import { TYPE_DIALOGUE, TYPE_RESPONSE } from "./constants";
+import type { DialogueManager, DialogueLine } from "./manager";
+import type { DialogueEvents, DialogueEventType } from "./events";
+import type { DialogueResource, Mutation } from "./types";
+
+
+export type BuiltinContext = {
+    // The line that is running the function (or null if there isn't one yet)
+    line: DialogueLine;
+    // The title that the line is under
+    title: string;
+    resource: DialogueResource;
+    manager: DialogueManager;
+    // Aborted when the conversation finishes or is interrupted
+    signal: AbortSignal;
+    // Aborted when any waiting should be skipped
+    skipSignal: AbortSignal;
+    // The manager's seeded random numbers (between 0 and 1)
+    random: () => number;
+    // The mutation that called the function (or null if it was called from an expression)
+    mutation: Mutation;
+    emit<K extends DialogueEventType>(type: K, payload: DialogueEvents[K]): Promise<void>;
+}
+
+export type BuiltinFunction = (context: BuiltinContext, ...args: Array<any>) => any;
+
+
+export const DEFAULT_BUILTINS: Record<string, BuiltinFunction> = {
+    /**
+     * Pause the conversation
+     * @param milliseconds How long to wait for
+     */
+    wait(context: BuiltinContext, milliseconds: number): Promise<void> {
+        const signals = [context.signal, context.skipSignal].filter(signal => signal != null);
+        return new Promise(resolve => {
+            if (signals.some(signal => signal.aborted)) return resolve();
+
+            const finish = () => {
+                clearTimeout(timer);
+                signals.forEach(signal => signal.removeEventListener("abort", finish));
+                resolve();
+            }
+            const timer = setTimeout(finish, parseFloat(String(milliseconds)));
+            signals.forEach(signal => signal.addEventListener("abort", finish));
+        });
+    },
+
+    /**
+     * Log some values (labelled with the expressions they came from)
+     */
+    debug(context: BuiltinContext, ...args: Array<any>): void {
+        const sources = context.mutation?.lhs_args ?? [];
+        const printable = args.reduce((o, arg, index) => {
+            o[sources[index] ?? index] = arg;
+            return o;
+        }, {});
+        console.log(printable);
+    },
+
+    /**
+     * Send a signal to any "signal" listeners
+     * @param name The name of the signal
+     */
+    emit(context: BuiltinContext, name: string, ...args: Array<any>): Promise<void> {
+        return context.emit("signal", { name, args });
+    },
+
+    /**
+     * Get a random number
+     * @param min The lowest whole number to return (if not given then a fraction between 0 and 1 is returned)
+     * @param max The highest whole number to return
+     */
+    random(context: BuiltinContext, min?: number, max?: number): number {
+        if (min == null) return context.random();
+        if (max == null) {
+            max = min;
+            min = 0;
+        }
+        return Math.floor(min + context.random() * (max - min + 1));
+    },
+
+    /**
+     * Check if a title (or line) has been seen before
+     * @param title A title or line key
+     */
+    visited(context: BuiltinContext, title: string): boolean {
+        return context.manager.getVisitCount(title, context.resource) > 0;
+    },
+
+    /**
+     * Count how many times a line has been reached (including this time)
+     * @param key A title or line key (defaults to the line that is running, or its title if the line is never shown)
+     */
+    times_seen(context: BuiltinContext, key?: string): number {
+        if (key == null && context.line != null) {
+            key = context.line.type == TYPE_DIALOGUE || context.line.type == TYPE_RESPONSE ? context.line.id : context.title;
+        }
+        if (key == null) return 0;
+        return context.manager.getVisitCount(key, context.resource);
+    }
+};
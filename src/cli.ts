@@ -0,0 +1,360 @@
+#!/usr/bin/env node
+
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline";
+import { DialogueManager } from "./manager";
+import { exploreResource, formatCoverageReport } from "./explorer";
+import { generateTypings } from "./typings";
+import type { DialogueLine, DialogueResponse } from "./manager";
+import type { DialogueResource } from "./types";
+
+
+const USAGE = `Usage: saywhat <resource.json> [title] [options]
+
+Play through a dialogue resource in the terminal.
+
+Options:
+  --state <file>    A game state to use (a JSON file or a JS module). Can be given more than once
+  --line <id>       Start from a line ID instead of a title
+  --script <file>   Read choices from a file (one per line, either a number or the response text)
+  --non-strict      Don't throw errors for missing game state properties and functions
+  --diff            Print any changes to the game states (or internal state) after each mutation
+  --coverage        Explore every path instead of playing and print a coverage report. Without
+                    any --state files both sides of every condition are explored
+  --typings         Print a TypeScript interface for the game state that the dialogue uses
+  --help            Show this message`;
+
+
+type PlayerOptions = {
+    resourcePath: string;
+    title: string;
+    lineId: string;
+    statePaths: Array<string>;
+    scriptPath: string;
+    isStrict: boolean;
+    showDiffs: boolean;
+    showCoverage: boolean;
+    showTypings: boolean;
+}
+
+
+main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+}).catch(error => {
+    console.error(error.message);
+    process.exitCode = 1;
+});
+
+
+/**
+ * Run the player
+ * @param args The command line arguments
+ * @returns The exit code
+ */
+async function main(args: Array<string>): Promise<number> {
+    const options = parseOptions(args);
+    if (options == null) {
+        console.log(USAGE);
+        return 0;
+    }
+
+    const resource: DialogueResource = JSON.parse(fs.readFileSync(options.resourcePath, "utf8"));
+
+    if (options.showTypings) {
+        process.stdout.write(generateTypings(resource));
+        return 0;
+    }
+
+    let key = options.title ?? Object.keys(resource.titles)[0];
+    if (options.lineId != null) {
+        if (resource.lines[options.lineId] == null) throw new Error("There is no line with ID '" + options.lineId + "'");
+        key = options.lineId;
+    } else if (key == null || resource.titles[key] == null) {
+        throw new Error(key == null ? "The resource has no titles" : "Unknown title '" + key + "'");
+    }
+
+    if (options.showCoverage) {
+        const report = await exploreResource(resource, key, {
+            states: options.statePaths.length > 0 ? [() => options.statePaths.map(loadGameState)] : null,
+            isStrict: options.isStrict
+        });
+        process.stdout.write(formatCoverageReport(report));
+        return report.unreachable.length > 0 || report.loops.length > 0 || report.paths.some(path => path.ending == "missing_line" || path.ending == "error") ? 1 : 0;
+    }
+
+    const manager = new DialogueManager({
+        isStrict: options.isStrict,
+        gameStates: options.statePaths.map(loadGameState)
+    });
+
+    if (options.showDiffs) {
+        let before: Record<string, any> = {};
+        let after: Record<string, any> = {};
+        manager.addListener("mutation_started", () => {
+            before = flattenGameStates(manager.gameStates);
+            after = {};
+        });
+        // Properties that aren't on a game state (in non-strict mode) are only seen through events
+        manager.addListener("state_changed", ({ property, oldValue, newValue }) => {
+            if (!(property in after)) before[property] = JSON.stringify(oldValue);
+            after[property] = JSON.stringify(newValue);
+        });
+        manager.addListener("mutation_finished", () => {
+            printDiff(before, { ...flattenGameStates(manager.gameStates), ...after });
+        });
+    }
+
+    const choices = options.scriptPath != null ? readScript(options.scriptPath) : null;
+    const input = choices == null ? createLineReader() : null;
+
+    try {
+        const session = manager.startConversation(key, resource);
+        let line = await session.next();
+        while (line != null) {
+            printLine(line);
+
+            if (session.needsChoice()) {
+                const response = choices != null
+                    ? pickScriptedResponse(line.responses, choices)
+                    : await askForResponse(line.responses, input);
+                if (response == null) return 0;
+                line = await session.choose(response);
+            } else {
+                line = await session.next();
+            }
+        }
+    } finally {
+        input?.close();
+    }
+
+    return 0;
+}
+
+
+/**
+ * Read the command line arguments
+ * @param args The command line arguments
+ * @returns The options or null if the usage should be shown
+ */
+function parseOptions(args: Array<string>): PlayerOptions {
+    const options: PlayerOptions = {
+        resourcePath: null,
+        title: null,
+        lineId: null,
+        statePaths: [],
+        scriptPath: null,
+        isStrict: true,
+        showDiffs: false,
+        showCoverage: false,
+        showTypings: false
+    };
+    const positional: Array<string> = [];
+
+    const takeValue = (index: number) => {
+        if (index + 1 >= args.length) throw new Error("Missing value for " + args[index]);
+        return args[index + 1];
+    }
+
+    for (let i = 0; i < args.length; i++) {
+        switch (args[i]) {
+            case "--help":
+            case "-h":
+                return null;
+            case "--state":
+                options.statePaths.push(takeValue(i++));
+                break;
+            case "--line":
+                options.lineId = takeValue(i++);
+                break;
+            case "--script":
+                options.scriptPath = takeValue(i++);
+                break;
+            case "--non-strict":
+                options.isStrict = false;
+                break;
+            case "--diff":
+                options.showDiffs = true;
+                break;
+            case "--coverage":
+                options.showCoverage = true;
+                break;
+            case "--typings":
+                options.showTypings = true;
+                break;
+            default:
+                if (args[i].indexOf("--") === 0) throw new Error("Unknown option '" + args[i] + "'\n\n" + USAGE);
+                positional.push(args[i]);
+        }
+    }
+
+    if (positional.length == 0 || positional.length > 2) return null;
+    options.resourcePath = positional[0];
+    options.title = positional[1] ?? null;
+
+    return options;
+}
+
+
+/**
+ * Load a game state from a JSON file or a JS module
+ * @param file The path to the game state
+ * @returns The game state
+ */
+function loadGameState(file: string): any {
+    const fullPath = path.resolve(file);
+    if (path.extname(fullPath).toLowerCase() == ".json") {
+        return JSON.parse(fs.readFileSync(fullPath, "utf8"));
+    }
+
+    // Always start from a fresh copy of the module
+    delete require.cache[require.resolve(fullPath)];
+    const loaded = require(fullPath);
+    return loaded?.default ?? loaded;
+}
+
+
+/**
+ * Read the choices out of a script file
+ * @param file The path to the script
+ * @returns A list of choices (blank lines and lines starting with "#" are skipped)
+ */
+function readScript(file: string): Array<string> {
+    return fs.readFileSync(file, "utf8")
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line !== "" && line.indexOf("#") !== 0);
+}
+
+
+/**
+ * Collect lines from stdin so that none are lost between prompts
+ * @returns Something to read lines from
+ */
+function createLineReader(): { next: () => Promise<string>, close: () => void } {
+    const lines: Array<string> = [];
+    const waiters: Array<(line: string) => void> = [];
+    let isClosed = false;
+
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: false });
+    rl.on("line", line => {
+        const waiter = waiters.shift();
+        if (waiter != null) {
+            waiter(line);
+        } else {
+            lines.push(line);
+        }
+    });
+    rl.on("close", () => {
+        isClosed = true;
+        waiters.splice(0).forEach(waiter => waiter(null));
+    });
+
+    return {
+        next: () => {
+            if (lines.length > 0) return Promise.resolve(lines.shift());
+            if (isClosed) return Promise.resolve(null);
+            return new Promise<string>(resolve => waiters.push(resolve));
+        },
+        close: () => rl.close()
+    };
+}
+
+
+/**
+ * Keep asking until a valid response is chosen
+ * @param responses The responses to choose from
+ * @param input Where to read choices from
+ * @returns The chosen response or null if the input ran out
+ */
+async function askForResponse(responses: Array<DialogueResponse>, input: { next: () => Promise<string> }): Promise<DialogueResponse> {
+    while (true) {
+        process.stdout.write("> ");
+        const choice = await input.next();
+        if (choice == null) return null;
+
+        const response = findResponse(responses, choice.trim());
+        if (response != null) return response;
+
+        console.log("Choose a number between 1 and " + responses.length);
+    }
+}
+
+
+/**
+ * Take the next choice from a script
+ * @param responses The responses to choose from
+ * @param choices The remaining choices in the script
+ * @returns The chosen response
+ */
+function pickScriptedResponse(responses: Array<DialogueResponse>, choices: Array<string>): DialogueResponse {
+    if (choices.length == 0) throw new Error("The script ran out of choices");
+
+    const choice = choices.shift();
+    const response = findResponse(responses, choice);
+    if (response == null) throw new Error("'" + choice + "' is not one of the available responses");
+
+    console.log("> " + choice);
+    return response;
+}
+
+
+/**
+ * Find a response by its number or its text
+ * @param responses The responses to choose from
+ * @param choice A 1-based number or the text of a response
+ * @returns The response or null if there was no match
+ */
+function findResponse(responses: Array<DialogueResponse>, choice: string): DialogueResponse {
+    if (/^[0-9]+$/.test(choice)) {
+        return responses[parseInt(choice, 10) - 1] ?? null;
+    }
+    return responses.find(response => response.prompt.toLowerCase() == choice.toLowerCase()) ?? null;
+}
+
+
+function printLine(line: DialogueLine): void {
+    if (line.dialogue) {
+        console.log(line.character ? line.character + ": " + line.dialogue : line.dialogue);
+    }
+    line.responses.forEach((response, index) => {
+        console.log("  " + (index + 1) + ". " + response.prompt);
+    });
+}
+
+
+/**
+ * Flatten the game states into a map of property paths to values
+ * @param gameStates The game states
+ * @returns A map of paths (eg. "player.gold") to JSON encoded values
+ */
+function flattenGameStates(gameStates: Array<any>): Record<string, any> {
+    const flat: Record<string, any> = {};
+
+    const visit = (value: any, prefix: string) => {
+        if (value != null && typeof value === "object" && !Array.isArray(value)) {
+            for (const key of Object.keys(value)) {
+                visit(value[key], prefix ? prefix + "." + key : key);
+            }
+        } else if (typeof value !== "function" && prefix) {
+            flat[prefix] = JSON.stringify(value);
+        }
+    }
+
+    // Later game states only fill in what earlier ones don't have (the same as lookups)
+    for (let i = gameStates.length - 1; i >= 0; i--) {
+        visit(gameStates[i], "");
+    }
+
+    return flat;
+}
+
+
+function printDiff(before: Record<string, any>, after: Record<string, any>): void {
+    const keys = Object.keys(before).concat(Object.keys(after).filter(key => !(key in before)));
+    for (const key of keys) {
+        if (before[key] !== after[key]) {
+            console.log("  [" + key + ": " + (before[key] ?? "undefined") + " -> " + (after[key] ?? "undefined") + "]");
+        }
+    }
+}
@@ -0,0 +1,618 @@
+import { TYPE_CONDITION, TYPE_DIALOGUE, TYPE_MUTATION, TYPE_RESPONSE, TYPE_GOTO, TYPE_FUNCTION, TYPE_SCALAR } from "./constants";
+import { DialogueSyntaxError } from "./errors";
+import { tokenise, splitTopLevel, findClosingBracket, parsePath } from "./expressions";
+import { extractTags } from "./markup";
+import { parseResourceKey, hashText } from "./utils";
+import type { Token } from "./expressions";
+import type { DialogueResource, LineData, LineTags, Condition, Mutation, Replacement } from "./types";
+
+
+const END = "END";
+
+const COMPARISON_OPERATORS = ["==", "!=", "<>", ">=", "<=", "=", ">", "<", "in"];
+const ASSIGNMENT_OPERATORS = ["+=", "-=", "*=", "/=", "="];
+const ARITHMETIC_OPERATORS = ["+", "-", "*", "/", "%"];
+
+const FUNCTION_REGEX = /^([a-zA-Z_][a-zA-Z0-9_]*(?:\.[a-zA-Z_][a-zA-Z0-9_]*)*)\((.*)\)$/;
+
+type ParsedLine = {
+    id: string;
+    lineNumber: number;
+    indent: number;
+    text: string;
+    offset: number;
+    children: Array<ParsedLine>;
+    data?: LineData;
+    goto?: string;
+    gotoColumn?: number;
+    // Random lines have a weight and can have their first line on the same line (eg. "%2 Nathan: Hi")
+    weight?: number;
+    inline?: ParsedLine;
+}
+
+
+/**
+ * Compile raw SayWhat dialogue into a dialogue resource
+ * @param text The raw dialogue text
+ * @returns A dialogue resource the same shape as a SayWhat JSON export
+ */
+export function compile(text: string): DialogueResource {
+    const resource: DialogueResource = { titles: {}, lines: {} };
+
+    const sections: Array<Array<ParsedLine>> = [];
+    const pendingTitles: Array<string> = [];
+    const stableIds: Record<string, number> = {};
+    let title: string = null;
+    let stack: Array<ParsedLine> = [];
+    let siblings: Array<ParsedLine> = null;
+
+    const rawLines = text.split(/\r?\n/);
+    for (let i = 0; i < rawLines.length; i++) {
+        const raw = rawLines[i];
+        const lineNumber = i + 1;
+        const trimmed = raw.trim();
+        if (trimmed === "") continue;
+
+        const offset = raw.length - raw.replace(/^\s+/, "").length;
+        const indent = raw.slice(0, offset).replace(/\t/g, "    ").length;
+
+        // Titles start a new section of dialogue
+        if (trimmed.indexOf("#") === 0) {
+            if (indent > 0) throw new DialogueSyntaxError("Titles can't be indented", lineNumber, 1);
+            title = trimmed.slice(1).trim();
+            if (title === "") throw new DialogueSyntaxError("Missing title", lineNumber, offset + 2);
+            if (typeof resource.titles[title] !== "undefined" || pendingTitles.indexOf(title) > -1) {
+                throw new DialogueSyntaxError("Duplicate title '" + title + "'", lineNumber, offset + 1);
+            }
+            pendingTitles.push(title);
+            resource.titles[title] = "";
+            siblings = [];
+            sections.push(siblings);
+            stack = [];
+            continue;
+        }
+
+        if (siblings == null) {
+            throw new DialogueSyntaxError("Dialogue must be under a title", lineNumber, offset + 1);
+        }
+
+        const line: ParsedLine = {
+            id: lineNumber.toString(),
+            lineNumber,
+            indent,
+            text: trimmed,
+            offset,
+            children: []
+        };
+
+        // Titles point to the first line after them
+        while (pendingTitles.length > 0) {
+            resource.titles[pendingTitles.shift()] = line.id;
+        }
+
+        // Find where this line sits in the tree
+        while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+            stack.pop();
+        }
+        const parent = stack[stack.length - 1];
+        const list = parent ? parent.children : siblings;
+        if (list.length > 0 && list[0].indent !== indent) {
+            throw new DialogueSyntaxError("Inconsistent indentation", lineNumber, offset + 1);
+        }
+        if (!parent && indent > 0) {
+            throw new DialogueSyntaxError("Unexpected indentation", lineNumber, offset + 1);
+        }
+
+        parseLine(line, resource);
+        setStableId(line, title, stableIds);
+        if (line.inline != null) setStableId(line.inline, title, stableIds);
+
+        if (parent && parent.data.type !== TYPE_CONDITION && parent.data.type !== TYPE_RESPONSE) {
+            throw new DialogueSyntaxError("Unexpected indentation", lineNumber, offset + 1);
+        }
+        if (parent && parent.goto != null) {
+            throw new DialogueSyntaxError("Responses that go to a title can't have nested lines", lineNumber, offset + 1);
+        }
+
+        list.push(line);
+        stack.push(line);
+    }
+
+    for (const section of sections) {
+        link(section, "", resource);
+    }
+
+    return resource;
+}
+
+
+/**
+ * Work out the type and contents of a single line
+ * @param line The line to parse
+ * @param resource The resource being compiled
+ */
+function parseLine(line: ParsedLine, resource: DialogueResource): void {
+    const text = line.text;
+    const column = line.offset + 1;
+    const data: LineData = { type: TYPE_DIALOGUE, next_id: "" };
+    line.data = data;
+    resource.lines[line.id] = data;
+
+    let match: RegExpMatchArray;
+
+    // Conditions
+    if ((match = text.match(/^(if|elif)\s+(.*?):?$/)) != null) {
+        data.type = TYPE_CONDITION;
+        data.condition = parseCondition(match[2], line.lineNumber, column + text.indexOf(match[2], match[1].length));
+        return;
+    }
+    if (text.match(/^else\s*:?$/)) {
+        data.type = TYPE_CONDITION;
+        return;
+    }
+
+    // Random lines (one line from each group of "%" siblings is picked)
+    if ((match = text.match(/^%([0-9]*\.?[0-9]+)?(?:\s+(.*))?$/)) != null) {
+        data.type = TYPE_CONDITION;
+        line.weight = match[1] != null ? parseFloat(match[1]) : 1;
+        if (!(line.weight > 0)) throw new DialogueSyntaxError("Random weights must be more than zero", line.lineNumber, column + 1);
+        if (match[2] != null) {
+            line.inline = {
+                id: line.id + ".1",
+                lineNumber: line.lineNumber,
+                indent: line.indent,
+                text: match[2],
+                offset: line.offset + text.length - match[2].length,
+                children: []
+            };
+            parseLine(line.inline, resource);
+            if (line.inline.data.type === TYPE_CONDITION) {
+                throw new DialogueSyntaxError("Random lines can't be conditions", line.lineNumber, line.inline.offset + 1);
+            }
+        }
+        return;
+    }
+
+    // Mutations
+    if ((match = text.match(/^(set|do)\s+(.*)$/)) != null) {
+        data.type = TYPE_MUTATION;
+        data.mutation = parseMutation(match[1], match[2], line.lineNumber, column + text.indexOf(match[2], match[1].length));
+        return;
+    }
+
+    // Gotos
+    if ((match = text.match(/^(=>|goto)\s*(.*)$/)) != null) {
+        data.type = TYPE_GOTO;
+        line.goto = match[2].trim();
+        line.gotoColumn = column + text.indexOf(match[2], match[1].length);
+        if (line.goto === "") throw new DialogueSyntaxError("Missing title to go to", line.lineNumber, line.gotoColumn);
+        return;
+    }
+
+    // Responses
+    if (text.indexOf("-") === 0) {
+        data.type = TYPE_RESPONSE;
+        const tagged = extractTags(text.slice(1));
+        let prompt = tagged.text;
+        setTags(data, tagged.tags);
+
+        const gotoIndex = prompt.lastIndexOf("=>");
+        if (gotoIndex > -1) {
+            line.goto = prompt.slice(gotoIndex + 2).trim();
+            line.gotoColumn = column + 1 + gotoIndex + 2 + (prompt.slice(gotoIndex + 2).length - prompt.slice(gotoIndex + 2).replace(/^\s+/, "").length);
+            if (line.goto === "") throw new DialogueSyntaxError("Missing title to go to", line.lineNumber, line.gotoColumn);
+            prompt = prompt.slice(0, gotoIndex);
+        }
+
+        const conditionMatch = prompt.match(/\[if\s+(.*?)\]\s*$/);
+        if (conditionMatch != null) {
+            data.condition = parseCondition(conditionMatch[1], line.lineNumber, column + 1 + prompt.lastIndexOf(conditionMatch[1]));
+            prompt = prompt.slice(0, conditionMatch.index);
+        }
+
+        const promptOffset = column + 1 + (prompt.length - prompt.replace(/^\s+/, "").length);
+        data.text = prompt.trim();
+        if (data.text === "") throw new DialogueSyntaxError("Missing response text", line.lineNumber, column);
+        data.replacements = parseReplacements(data.text, line.lineNumber, promptOffset);
+        return;
+    }
+
+    // Anything else is dialogue
+    const characterMatch = text.match(/^([^:{}"]+):\s*(.*)$/);
+    let dialogueOffset = column;
+    if (characterMatch != null) {
+        data.character = characterMatch[1].trim();
+        data.text = characterMatch[2];
+        dialogueOffset = column + text.length - characterMatch[2].length;
+    } else {
+        data.character = "";
+        data.text = text;
+    }
+    const tagged = extractTags(data.text);
+    data.text = tagged.text.trim();
+    setTags(data, tagged.tags);
+    data.replacements = parseReplacements(data.text, line.lineNumber, dialogueOffset);
+}
+
+
+/**
+ * Add any tags to a line
+ * @param data The line
+ * @param tags The tags that were found in its text
+ */
+function setTags(data: LineData, tags: LineTags): void {
+    if (Object.keys(tags).length > 0) {
+        data.tags = tags;
+    }
+}
+
+
+/**
+ * Give a dialogue or response line an ID that doesn't change when other lines are added or
+ * removed. It comes from an "id" tag (eg. "[#id=intro_1]") or from the line's title and text
+ * @param line The parsed line
+ * @param title The title the line is under
+ * @param seen How many times each ID has been used so far
+ */
+function setStableId(line: ParsedLine, title: string, seen: Record<string, number>): void {
+    const data = line.data;
+    if (data.type !== TYPE_DIALOGUE && data.type !== TYPE_RESPONSE) return;
+
+    let id = hashText(title + "\n" + (data.character ?? "") + "\n" + data.text);
+    if (data.tags != null && typeof data.tags.id === "string") {
+        id = data.tags.id;
+        delete data.tags.id;
+        if (Object.keys(data.tags).length == 0) delete data.tags;
+        if (seen[id] != null) throw new DialogueSyntaxError("Duplicate line ID '" + id + "'", line.lineNumber, line.offset + 1);
+    }
+
+    // Lines that say the same thing under the same title are numbered
+    seen[id] = (seen[id] ?? 0) + 1;
+    data.stable_id = seen[id] > 1 ? id + "_" + seen[id] : id;
+}
+
+
+/**
+ * Connect each line to the lines that follow it
+ * @param siblings A list of lines at the same level of indentation
+ * @param after The ID to go to once the list has finished
+ * @param resource The resource being compiled
+ */
+function link(siblings: Array<ParsedLine>, after: string, resource: DialogueResource): void {
+    let i = 0;
+    while (i < siblings.length) {
+        const line = siblings[i];
+        const data = line.data;
+
+        // Conditions and responses are grouped with their siblings
+        let end = i + 1;
+        if (data.type === TYPE_CONDITION && line.weight != null) {
+            while (end < siblings.length && siblings[end].weight != null) {
+                end++;
+            }
+            setRandomConditions(siblings.slice(i, end));
+        } else if (data.type === TYPE_CONDITION) {
+            if (!line.text.match(/^if\s/)) {
+                throw new DialogueSyntaxError("'" + line.text.split(/[\s:]/)[0] + "' without a matching 'if'", line.lineNumber, line.offset + 1);
+            }
+            while (end < siblings.length && siblings[end].data.type === TYPE_CONDITION && siblings[end].weight == null && !siblings[end].text.match(/^if\s/)) {
+                if (siblings[end - 1].data.condition == null) {
+                    throw new DialogueSyntaxError("Nothing can follow 'else'", siblings[end].lineNumber, siblings[end].offset + 1);
+                }
+                end++;
+            }
+        } else if (data.type === TYPE_RESPONSE) {
+            while (end < siblings.length && siblings[end].data.type === TYPE_RESPONSE) {
+                end++;
+            }
+        }
+        const nextId = end < siblings.length ? siblings[end].id : after;
+
+        switch (data.type) {
+            case TYPE_CONDITION:
+                for (let j = i; j < end; j++) {
+                    const branch = siblings[j];
+                    const children = branch.inline != null ? [branch.inline].concat(branch.children) : branch.children;
+                    branch.data.next_id = children.length > 0 ? children[0].id : nextId;
+                    branch.data.next_conditional_id = j + 1 < end ? siblings[j + 1].id : nextId;
+                    branch.data.next_id_after = nextId;
+                    link(children, nextId, resource);
+                }
+                break;
+
+            case TYPE_RESPONSE:
+                data.responses = siblings.slice(i, end).map(response => response.id);
+                for (let j = i; j < end; j++) {
+                    const response = siblings[j];
+                    if (response.goto != null) {
+                        response.data.next_id = getTitleId(response, resource);
+                    } else {
+                        response.data.next_id = response.children.length > 0 ? response.children[0].id : nextId;
+                        link(response.children, nextId, resource);
+                    }
+                }
+                break;
+
+            case TYPE_GOTO:
+                data.next_id = getTitleId(line, resource);
+                break;
+
+            default:
+                data.next_id = nextId;
+        }
+
+        i = end;
+    }
+}
+
+
+/**
+ * Give each line in a random group a condition so that exactly one of them is picked. Each
+ * line is checked against the weight of itself and the lines after it so that the chance of
+ * getting to a line and then passing its check works out to its share of the total weight
+ * @param group The random lines
+ */
+function setRandomConditions(group: Array<ParsedLine>): void {
+    let remaining = group.reduce((total, line) => total + line.weight, 0);
+    for (let i = 0; i < group.length - 1; i++) {
+        const line = group[i];
+        line.data.condition = parseCondition("random() * " + remaining + " < " + line.weight, line.lineNumber, line.offset + 1);
+        remaining -= line.weight;
+    }
+    // The last line is picked if none of the others were
+}
+
+
+/**
+ * Find the ID that a goto points to
+ * @param line A line with a goto
+ * @param resource The resource being compiled
+ * @returns The ID of the first line in the title (or the goto itself if it is in another resource)
+ */
+function getTitleId(line: ParsedLine, resource: DialogueResource): string {
+    if (line.goto === END) return "";
+    // Titles in other resources (eg. "chapter2/Some title") are looked up when the dialogue is run
+    if (typeof resource.titles[line.goto] === "undefined" && parseResourceKey(line.goto) != null) return line.goto;
+    if (typeof resource.titles[line.goto] === "undefined") {
+        throw new DialogueSyntaxError("Unknown title '" + line.goto + "'", line.lineNumber, line.gotoColumn);
+    }
+    return resource.titles[line.goto];
+}
+
+
+/**
+ * Parse the expression of an "if", "elif" or response condition
+ * @param text The raw condition
+ * @param lineNumber The line number of the condition
+ * @param column The column the condition starts at
+ * @returns A condition object
+ */
+function parseCondition(text: string, lineNumber: number, column: number): Condition {
+    // Anything more complicated than a single comparison is kept as one expression
+    const tokens = tokenise(text, lineNumber, column);
+    const simple = parseSimpleCondition(text, lineNumber, column);
+    if (simple != null) return simple;
+
+    return { lhs_type: TYPE_SCALAR, lhs: tokens };
+}
+
+
+/**
+ * Parse a condition that is either a single value or a single comparison
+ * @param text The raw condition
+ * @param lineNumber The line number of the condition
+ * @param column The column the condition starts at
+ * @returns A condition object or null if the condition isn't that simple
+ */
+function parseSimpleCondition(text: string, lineNumber: number, column: number): Condition {
+    const split = findOperator(text, COMPARISON_OPERATORS);
+    const lhsText = split == null ? text : text.slice(0, split.index);
+    const lhs = parseSide(lhsText, lineNumber, column, true);
+    if (lhs.type === TYPE_SCALAR) {
+        if (lhs.value.length !== 1 || lhs.value[0].type !== "value") return null;
+        lhs.value = lhs.value[0].value;
+    }
+
+    if (split == null) {
+        return { lhs_type: lhs.type, lhs_function: lhs.function, lhs_args: lhs.args, lhs: lhs.value };
+    }
+
+    const rhsText = text.slice(split.index + split.operator.length);
+    const rhs = parseSide(rhsText, lineNumber, column + split.index + split.operator.length, true);
+    if (rhs.type === TYPE_SCALAR && !isArithmetic(rhs.value)) return null;
+
+    return {
+        lhs_type: lhs.type,
+        lhs_function: lhs.function,
+        lhs_args: lhs.args,
+        lhs: lhs.value,
+        operator: split.operator,
+        rhs_type: rhs.type,
+        rhs_function: rhs.function,
+        rhs_args: rhs.args,
+        rhs: rhs.value
+    };
+}
+
+
+/**
+ * Parse the contents of a "set" or "do" line
+ * @param keyword Either "set" or "do"
+ * @param text The raw mutation
+ * @param lineNumber The line number of the mutation
+ * @param column The column the mutation starts at
+ * @returns A mutation object
+ */
+function parseMutation(keyword: string, text: string, lineNumber: number, column: number): Mutation {
+    const split = findOperator(text, ASSIGNMENT_OPERATORS);
+
+    if (split == null) {
+        const lhs = parseSide(text, lineNumber, column, false);
+        if (lhs.type !== TYPE_FUNCTION) {
+            throw new DialogueSyntaxError("Expected a function call or an assignment", lineNumber, column);
+        }
+        return { lhs_type: lhs.type, lhs_function: lhs.function, lhs_args: lhs.args };
+    }
+
+    if (keyword === "do") {
+        throw new DialogueSyntaxError("Use 'set' for assignments", lineNumber, column + split.index);
+    }
+
+    const property = text.slice(0, split.index).trim();
+    if (parsePath(property) == null) {
+        throw new DialogueSyntaxError("Expected a property name", lineNumber, column);
+    }
+
+    const rhsText = text.slice(split.index + split.operator.length);
+    if (rhsText.trim() === "") {
+        throw new DialogueSyntaxError("Missing value after '" + split.operator + "'", lineNumber, column + text.length);
+    }
+    const rhs = parseSide(rhsText, lineNumber, column + split.index + split.operator.length, true);
+
+    return {
+        lhs_type: TYPE_SCALAR,
+        lhs: property,
+        operator: split.operator,
+        rhs_type: rhs.type,
+        rhs_function: rhs.function,
+        rhs_args: rhs.args,
+        rhs: rhs.value
+    };
+}
+
+
+/**
+ * Find all of the {{replacements}} in some text
+ * @param text The raw text
+ * @param lineNumber The line number of the text
+ * @param column The column the text starts at
+ * @returns A list of replacements
+ */
+function parseReplacements(text: string, lineNumber: number, column: number): Array<Replacement> {
+    const replacements: Array<Replacement> = [];
+
+    const regex = /{{(.*?)}}/g;
+    let match: RegExpExecArray;
+    while ((match = regex.exec(text)) != null) {
+        const expressionColumn = column + match.index + 2;
+        if (match[1].trim() === "") {
+            throw new DialogueSyntaxError("Empty replacement", lineNumber, expressionColumn);
+        }
+        const side = parseSide(match[1], lineNumber, expressionColumn, true);
+        const replacement: Replacement = { type: side.type, value: side.value, value_in_text: match[0] };
+        if (side.type === TYPE_FUNCTION) {
+            replacement.function = side.function;
+            replacement.args = side.args;
+        }
+        replacements.push(replacement);
+    }
+
+    return replacements;
+}
+
+
+/**
+ * Parse one side of a condition or mutation
+ * @param text The raw expression
+ * @param lineNumber The line number of the expression
+ * @param column The column the expression starts at
+ * @param allowExpression Whether a tokenised expression is allowed or only a single value
+ * @returns The type of the expression and its contents
+ */
+function parseSide(text: string, lineNumber: number, column: number, allowExpression: boolean): { type: string, value?: any, function?: string, args?: Array<string> } {
+    const leading = text.length - text.replace(/^\s+/, "").length;
+    const trimmed = text.trim();
+    column += leading;
+
+    if (trimmed === "") {
+        throw new DialogueSyntaxError("Missing value", lineNumber, column);
+    }
+
+    const functionMatch = trimmed.match(FUNCTION_REGEX);
+    if (functionMatch != null && findClosingBracket(trimmed, functionMatch[1].length) === trimmed.length - 1) {
+        const argsColumn = column + functionMatch[1].length + 1;
+        return {
+            type: TYPE_FUNCTION,
+            function: functionMatch[1],
+            args: parseArgs(functionMatch[2], lineNumber, argsColumn)
+        };
+    }
+
+    const tokens = tokenise(trimmed, lineNumber, column);
+    if (allowExpression) {
+        return { type: TYPE_SCALAR, value: tokens };
+    }
+
+    if (tokens.length !== 1 || tokens[0].type !== "value") {
+        throw new DialogueSyntaxError("Expected a single value", lineNumber, column);
+    }
+    return { type: TYPE_SCALAR, value: tokens[0].value };
+}
+
+
+/**
+ * Split up the arguments to a function call
+ * @param text The raw arguments, without the surrounding parentheses
+ * @param lineNumber The line number of the arguments
+ * @param column The column the arguments start at
+ * @returns A list of raw argument expressions
+ */
+function parseArgs(text: string, lineNumber: number, column: number): Array<string> {
+    if (text.trim() === "") return [];
+
+    return splitTopLevel(text).map(arg => {
+        if (arg.text.trim() === "") {
+            throw new DialogueSyntaxError("Missing argument", lineNumber, column + arg.offset);
+        }
+        // Make sure the argument is a valid expression
+        tokenise(arg.text, lineNumber, column + arg.offset);
+        return arg.text.trim();
+    });
+}
+
+
+/**
+ * Check if a list of tokens is only values joined by arithmetic
+ * @param tokens A list of tokens
+ * @returns True if the tokens alternate between values and arithmetic operators
+ */
+function isArithmetic(tokens: Array<Token>): boolean {
+    for (let i = 0; i < tokens.length; i++) {
+        const isOperator = tokens[i].type === "operator";
+        if (i % 2 === 0 && isOperator) return false;
+        if (i % 2 === 1 && (!isOperator || ARITHMETIC_OPERATORS.indexOf(tokens[i].value) == -1)) return false;
+    }
+    return true;
+}
+
+
+/**
+ * Find the first operator in an expression that isn't inside a string or brackets
+ * @param text The raw expression
+ * @param operators A list of operators to look for, longest first
+ * @returns The operator and where it was found
+ */
+function findOperator(text: string, operators: Array<string>): { operator: string, index: number } {
+    let inString = false;
+    let depth = 0;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (c === "\"") {
+            inString = !inString;
+        } else if (inString) {
+            continue;
+        } else if ("([{".indexOf(c) > -1) {
+            depth++;
+        } else if (")]}".indexOf(c) > -1) {
+            depth--;
+        } else if (depth === 0) {
+            for (const operator of operators) {
+                if (text.substr(i, operator.length) !== operator) continue;
+                // Word operators need to stand on their own
+                if (operator.match(/^[a-z]+$/) && !(text.substr(i - 1, 1).match(/\s/) && text.substr(i + operator.length, 1).match(/\s/))) continue;
+                return { operator, index: i };
+            }
+        }
+    }
+    return null;
+}
@@ -0,0 +1,15 @@
+export const TYPE_CONDITION = "condition";
+export const TYPE_DIALOGUE = "dialogue";
+export const TYPE_MUTATION = "mutation";
+export const TYPE_RESPONSE = "response";
+export const TYPE_GOTO = "goto";
+
+export const TYPE_FUNCTION = "function";
+export const TYPE_SCALAR = "scalar";
+export const TYPE_ERROR = "error";
+
+// Events that happen while the conversation is stepping between lines, so listeners can be waited on
+export const AWAITABLE_EVENTS = ["line", "responses_presented", "response_chosen", "mutation_started", "mutation_finished", "signal", "error"];
+
+// Property names that would reach into an object's prototype
+export const UNSAFE_PROPERTIES = ["__proto__", "constructor", "prototype"];
@@ -0,0 +1,154 @@
+export class DialogueSyntaxError extends Error {
+    line: number;
+    column: number;
+
+    constructor(message: string, line: number = null, column: number = null) {
+        super(line == null ? message : message + " (line " + line + ", column " + column + ")");
+        Object.setPrototypeOf(this, DialogueSyntaxError.prototype);
+        this.name = "DialogueSyntaxError";
+        this.line = line;
+        this.column = column;
+    }
+}
+
+
+export class DialogueTimeoutError extends Error {
+    functionName: string;
+    timeout: number;
+
+    constructor(functionName: string, timeout: number) {
+        super("'" + functionName + "' took longer than " + timeout + "ms to run");
+        Object.setPrototypeOf(this, DialogueTimeoutError.prototype);
+        this.name = "DialogueTimeoutError";
+        this.functionName = functionName;
+        this.timeout = timeout;
+    }
+}
+
+
+export type DialogueErrorCategory = "missing_property" | "missing_function" | "bad_export" | "bad_operator" | "type_mismatch" | "bad_markup";
+
+export type DialogueErrorContext = {
+    lineId?: string;
+    // The title that the line is under
+    title?: string;
+    character?: string;
+    // The expression (or mutation) that was being run
+    expression?: string;
+}
+
+
+/**
+ * Something went wrong while running dialogue. Depending on the manager's diagnostics
+ * policy for its category it is either thrown, kept as a warning, or ignored
+ */
+export class DialogueError extends Error {
+    category: DialogueErrorCategory;
+    lineId: string;
+    title: string;
+    character: string;
+    expression: string;
+
+    constructor(message: string, category: DialogueErrorCategory, context: DialogueErrorContext = {}) {
+        super(message + describeContext(context));
+        Object.setPrototypeOf(this, DialogueError.prototype);
+        this.name = "DialogueError";
+        this.category = category;
+        this.lineId = context.lineId ?? null;
+        this.title = context.title ?? null;
+        this.character = context.character ?? null;
+        this.expression = context.expression ?? null;
+    }
+}
+
+
+export class MissingPropertyError extends DialogueError {
+    property: string;
+
+    constructor(property: string, context: DialogueErrorContext = {}) {
+        super("'" + property + "' is not a property on any game state", "missing_property", context);
+        Object.setPrototypeOf(this, MissingPropertyError.prototype);
+        this.name = "MissingPropertyError";
+        this.property = property;
+    }
+}
+
+
+export class MissingFunctionError extends DialogueError {
+    functionName: string;
+
+    constructor(functionName: string, context: DialogueErrorContext = {}) {
+        super("'" + functionName + "' is not a method on any game state", "missing_function", context);
+        Object.setPrototypeOf(this, MissingFunctionError.prototype);
+        this.name = "MissingFunctionError";
+        this.functionName = functionName;
+    }
+}
+
+
+export class BadExportError extends DialogueError {
+    // What was exported badly (eg. "condition")
+    kind: string;
+
+    constructor(kind: string, context: DialogueErrorContext = {}) {
+        super("This " + kind + " was not exported properly", "bad_export", context);
+        Object.setPrototypeOf(this, BadExportError.prototype);
+        this.name = "BadExportError";
+        this.kind = kind;
+    }
+}
+
+
+export class BadOperatorError extends DialogueError {
+    operator: string;
+
+    constructor(operator: string, context: DialogueErrorContext = {}) {
+        super("Unknown operator '" + operator + "'", "bad_operator", context);
+        Object.setPrototypeOf(this, BadOperatorError.prototype);
+        this.name = "BadOperatorError";
+        this.operator = operator;
+    }
+}
+
+
+export class BadMarkupError extends DialogueError {
+    // What was wrong with the tag (eg. "Unclosed tag '[b]'")
+    problem: string;
+
+    constructor(problem: string, context: DialogueErrorContext = {}) {
+        super(problem, "bad_markup", context);
+        Object.setPrototypeOf(this, BadMarkupError.prototype);
+        this.name = "BadMarkupError";
+        this.problem = problem;
+    }
+}
+
+
+export class TypeMismatchError extends DialogueError {
+    operator: string;
+    lhsType: string;
+    rhsType: string;
+
+    constructor(operator: string, lhsType: string, rhsType: string, context: DialogueErrorContext = {}) {
+        super("Can't use '" + operator + "' with " + lhsType + " and " + rhsType, "type_mismatch", context);
+        Object.setPrototypeOf(this, TypeMismatchError.prototype);
+        this.name = "TypeMismatchError";
+        this.operator = operator;
+        this.lhsType = lhsType;
+        this.rhsType = rhsType;
+    }
+}
+
+
+/**
+ * Describe where an error happened
+ * @param context The line and expression
+ * @returns Some text to add to the end of the error message
+ */
+function describeContext(context: DialogueErrorContext): string {
+    const parts: Array<string> = [];
+    if (context.expression != null) parts.push("in \"" + context.expression + "\"");
+    if (context.lineId != null) parts.push("on line '" + context.lineId + "'");
+    if (context.title != null) parts.push("under '" + context.title + "'");
+    return parts.length > 0 ? " (" + parts.join(" ") + ")" : "";
+}
@@ -0,0 +1,51 @@
+import type { DialogueLine, DialogueResponse } from "./manager";
+import type { DialogueError } from "./errors";
+import type { Condition, Mutation, DialogueResource, ResourceReload } from "./types";
+
+
+export type DialogueEvents = {
+    started: {};
+    finished: {};
+    line: { line: DialogueLine };
+    responses_presented: { line: DialogueLine, responses: Array<DialogueResponse> };
+    response_chosen: { response: DialogueResponse };
+    mutation_started: { mutation: Mutation, args: Array<any> };
+    mutation_finished: { mutation: Mutation, args: Array<any> };
+    condition_evaluated: { condition: Condition, result: boolean };
+    state_changed: { property: string, oldValue: any, newValue: any };
+    goto: { from: string, to: string };
+    translation_missing: { locale: string, lineId: string, text: string };
+    signal: { name: string, args: Array<any> };
+    resource_loaded: { name: string, resource: DialogueResource };
+    resource_reloaded: { resource: DialogueResource, reload: ResourceReload, line: DialogueLine };
+    error: { error: Error };
+    diagnostic: { error: DialogueError };
+}
+
+export type DialogueEventType = keyof DialogueEvents;
+
+// Events that listeners can ask to be waited on for (see AWAITABLE_EVENTS)
+export type AwaitableEventType = "line" | "responses_presented" | "response_chosen" | "mutation_started" | "mutation_finished" | "signal" | "error";
+
+export type DialogueListener<K extends DialogueEventType> = (payload: DialogueEvents[K]) => void | Promise<void>;
+
+export type DialogueWildcardListener = (type: DialogueEventType, payload: DialogueEvents[DialogueEventType]) => void | Promise<void>;
+
+export type ListenerOptions = {
+    // Remove the listener after it has been called once
+    once?: boolean;
+    // If the listener returns a promise then wait for it before the conversation continues
+    wait?: boolean;
+}
+
+// Options for events that never wait for their listeners
+export type UnwaitedListenerOptions = {
+    once?: boolean;
+    wait?: false;
+}
+
+export type RegisteredListener = {
+    fn: Function;
+    once: boolean;
+    wait: boolean;
+}
@@ -0,0 +1,417 @@
+import { TYPE_CONDITION, TYPE_DIALOGUE, TYPE_RESPONSE } from "./constants";
+import { compileCondition, compileMutation, stringifyExpression } from "./expressions";
+import { DialogueManager } from "./manager";
+import type { DialogueLine } from "./manager";
+import { getOwningTitles, parseResourceKey } from "./utils";
+import type { Condition, DialogueResource, Mutation } from "./types";
+
+
+const DEFAULT_MAX_STEPS = 10000;
+
+
+export type ExplorationOptions = {
+    // Functions that each make a fresh set of game states for conditions to be checked
+    // against. Without any, both sides of every condition are explored instead
+    states?: Array<() => Array<any>>;
+    // Whether missing game state properties and functions are errors (when using states)
+    isStrict?: boolean;
+    // The most lines to step through in total before giving up
+    maxSteps?: number;
+}
+
+export type ExplorationStep = {
+    lineId: string;
+    type: "response" | "condition";
+    // The index of the option that was taken
+    choice: number;
+    // The response prompt or the side of the condition
+    label: string;
+}
+
+export type ExplorationRoute = {
+    // The index of the game states used (or null if branches were forced)
+    stateIndex: number;
+    steps: Array<ExplorationStep>;
+}
+
+export type ExplorationEnding = "end" | "missing_line" | "loop" | "error" | "step_limit";
+
+export type ExplorationPath = ExplorationRoute & {
+    // The last line the path got to
+    lineId: string;
+    ending: ExplorationEnding;
+    hasDialogue: boolean;
+    error?: string;
+}
+
+export type CoverageReport = {
+    title: string;
+    visited: Array<string>;
+    // Lines under the title that no path ever got to
+    unreachable: Array<string>;
+    // The first route found to each visited line
+    routes: Record<string, ExplorationRoute>;
+    paths: Array<ExplorationPath>;
+    // Paths that finish without ever showing any dialogue
+    silentPaths: Array<ExplorationPath>;
+    // Paths that go around in circles without ever needing a choice
+    loops: Array<ExplorationPath>;
+    // False if the step budget ran out before everything was explored
+    isComplete: boolean;
+}
+
+type ExplorationContext = {
+    resource: DialogueResource;
+    report: CoverageReport;
+    stateIndex: number;
+    conditionLines: Map<Condition, string>;
+    // Forks (and the game state at the time) that have already been explored
+    explored: Record<string, boolean>;
+    maxSteps: number;
+    steps: number;
+}
+
+
+/**
+ * Play through every path from a title and report on which lines can be reached
+ * @param resource A dialogue resource
+ * @param title The title to start from
+ * @param options How to explore
+ * @returns A coverage report
+ */
+export async function exploreResource(resource: DialogueResource, title: string, options: ExplorationOptions = {}): Promise<CoverageReport> {
+    if (resource.titles[title] == null) throw new Error("Unknown title '" + title + "'");
+
+    const report: CoverageReport = {
+        title,
+        visited: [],
+        unreachable: [],
+        routes: {},
+        paths: [],
+        silentPaths: [],
+        loops: [],
+        isComplete: true
+    };
+
+    const conditionLines = new Map<Condition, string>();
+    for (const id of Object.keys(resource.lines)) {
+        const data = resource.lines[id];
+        if (data.type == TYPE_CONDITION && data.condition != null) {
+            conditionLines.set(data.condition, id);
+        }
+    }
+
+    const states = options.states ?? [null];
+    let steps = 0;
+    for (let stateIndex = 0; stateIndex < states.length && report.isComplete; stateIndex++) {
+        const context: ExplorationContext = {
+            resource,
+            report,
+            stateIndex: states[stateIndex] != null ? stateIndex : null,
+            conditionLines,
+            explored: {},
+            maxSteps: options.maxSteps ?? DEFAULT_MAX_STEPS,
+            steps
+        };
+
+        // Each path is played from the start again so that every path gets fresh game states
+        const queue: Array<Array<number>> = [[]];
+        while (queue.length > 0 && report.isComplete) {
+            const manager = new ExplorationManager(context, queue.shift(), states[stateIndex], options.isStrict ?? true);
+            const path = await manager.explore(title);
+            queue.push(...manager.getUnexploredChoices());
+
+            if (path == null) continue;
+            report.paths.push(path);
+            if (path.ending == "loop") report.loops.push(path);
+            if (path.ending == "step_limit") report.isComplete = false;
+            if (!path.hasDialogue && (path.ending == "end" || path.ending == "missing_line")) report.silentPaths.push(path);
+        }
+        steps = context.steps;
+    }
+
+    const owners = getOwningTitles(resource);
+    for (const id of Object.keys(resource.lines)) {
+        if (report.routes[id] != null) {
+            report.visited.push(id);
+        } else if (owners[id] == title) {
+            report.unreachable.push(id);
+        }
+    }
+
+    return report;
+}
+
+
+/**
+ * Describe a coverage report in plain text
+ * @param report A coverage report from exploreResource
+ * @returns The report as text
+ */
+export function formatCoverageReport(report: CoverageReport): string {
+    const lines = [
+        "Explored " + report.paths.length + " path" + (report.paths.length == 1 ? "" : "s") + " from \"" + report.title + "\" and visited " + report.visited.length + " line" + (report.visited.length == 1 ? "" : "s")
+    ];
+    if (!report.isComplete) lines.push("Gave up before exploring everything (the step limit was reached)");
+
+    if (report.unreachable.length > 0) {
+        lines.push("", "Unreachable lines: " + report.unreachable.join(", "));
+    }
+
+    const sections: Array<[string, Array<ExplorationPath>]> = [
+        ["Paths that end without dialogue", report.silentPaths],
+        ["Paths that loop forever", report.loops],
+        ["Paths that hit missing lines", report.paths.filter(path => path.ending == "missing_line")],
+        ["Paths that failed", report.paths.filter(path => path.ending == "error")]
+    ];
+    for (const [heading, paths] of sections) {
+        if (paths.length == 0) continue;
+        lines.push("", heading + ":");
+
+        // The same problem can be found along lots of paths so only show the first one
+        const counts: Record<string, number> = {};
+        const first: Array<[string, ExplorationPath]> = [];
+        for (const path of paths) {
+            const key = path.lineId + ":" + path.error;
+            if (counts[key] == null) first.push([key, path]);
+            counts[key] = (counts[key] ?? 0) + 1;
+        }
+        for (const [key, path] of first) {
+            const error = path.error != null ? " (" + path.error + ")" : "";
+            const states = path.stateIndex != null ? " with states " + path.stateIndex : "";
+            const more = counts[key] > 1 ? " (and " + (counts[key] - 1) + " more)" : "";
+            lines.push("  line " + path.lineId + error + " via " + describeRoute(path) + states + more);
+        }
+    }
+
+    return lines.join("\n") + "\n";
+}
+
+
+/**
+ * Describe the choices needed to follow a route
+ * @param route A route from a coverage report
+ * @returns The choices as text
+ */
+export function describeRoute(route: ExplorationRoute): string {
+    if (route.steps.length == 0) return "(no choices)";
+    return route.steps.map(step => step.type == TYPE_RESPONSE ? "\"" + step.label + "\"" : step.label).join(" > ");
+}
+
+
+/**
+ * A dialogue manager that plays through one path, making whatever choices it is told to
+ * and then taking the first option at every fork it hasn't seen before
+ */
+class ExplorationManager extends DialogueManager {
+    private context: ExplorationContext;
+    private replay: Array<number>;
+    private isForcing: boolean;
+
+    private steps: Array<ExplorationStep> = [];
+    private forks: Array<{ index: number, options: number }> = [];
+    // The step at which each fork was passed on this path
+    private forksOnPath: Record<string, number> = {};
+    private linesSinceChoice: Record<string, boolean> = {};
+    private lastLineId: string = null;
+    private hasDialogue: boolean = false;
+    private hasMissingLine: boolean = false;
+
+    constructor(context: ExplorationContext, replay: Array<number>, createStates: () => Array<any>, isStrict: boolean) {
+        super({
+            defaultResource: context.resource,
+            gameStates: createStates != null ? createStates() : [],
+            isStrict: createStates != null ? isStrict : false
+        });
+        this.context = context;
+        this.replay = replay;
+        this.isForcing = createStates == null;
+    }
+
+    /**
+     * Play through the path
+     * @param title The title to start from
+     * @returns The path or null if it ran into part of the dialogue that has already been explored
+     */
+    public async explore(title: string): Promise<ExplorationPath> {
+        let ending: ExplorationEnding = "end";
+        let error: string;
+
+        try {
+            let line = await this.getNextDialogueLine(title);
+            while (line != null) {
+                if (line.type == TYPE_DIALOGUE) this.hasDialogue = true;
+                line.responses.forEach(response => this.visit(response.id));
+
+                if (this.needsChoice(line)) {
+                    const choice = this.choose(line.id, "response", line.responses.map(response => response.prompt));
+                    this.lastLineId = line.responses[choice].id;
+                    line = await this.chooseResponse(line.responses[choice]);
+                } else {
+                    line = await this.getNextDialogueLine(line.nextId);
+                }
+            }
+            if (this.hasMissingLine) ending = "missing_line";
+        } catch (e) {
+            if (e instanceof ExplorationStop) {
+                if (e.ending == null) return null;
+                ending = e.ending;
+            } else {
+                ending = "error";
+                error = e.message;
+            }
+        }
+
+        return {
+            stateIndex: this.context.stateIndex,
+            steps: this.steps,
+            lineId: this.lastLineId,
+            ending,
+            hasDialogue: this.hasDialogue,
+            error
+        };
+    }
+
+    /**
+     * Get the choices that lead to the other options at each new fork along this path
+     * @returns A list of choices to replay
+     */
+    public getUnexploredChoices(): Array<Array<number>> {
+        const unexplored: Array<Array<number>> = [];
+        for (const fork of this.forks) {
+            const before = this.steps.slice(0, fork.index).map(step => step.choice);
+            for (let option = 1; option < fork.options; option++) {
+                unexplored.push(before.concat(option));
+            }
+        }
+        return unexplored;
+    }
+
+    protected getMissingLine(key: string, localResource: DialogueResource): DialogueLine {
+        // Going into another resource ends the path for this one
+        if (key != null && key !== "" && parseResourceKey(key) == null) this.hasMissingLine = true;
+        return super.getMissingLine(key, localResource);
+    }
+
+    protected enterLine(id: string, localResource: DialogueResource): void {
+        if (++this.context.steps > this.context.maxSteps) {
+            throw new ExplorationStop("step_limit");
+        }
+
+        // Getting back to the same line (with the same game state) without making
+        // any choices along the way means it will keep going around forever
+        const seen = id + ":" + this.getStateSignature();
+        if (this.linesSinceChoice[seen]) throw new ExplorationStop("loop");
+        this.linesSinceChoice[seen] = true;
+
+        this.lastLineId = id;
+        this.visit(id);
+
+        super.enterLine(id, localResource);
+    }
+
+    check(condition: Condition): boolean {
+        if (!this.isForcing) return super.check(condition);
+
+        // Conditions on responses are ignored so that every response is explored
+        const lineId = this.context.conditionLines.get(condition);
+        if (lineId == null) return true;
+
+        return this.choose(lineId, "condition", ["if " + describeCondition(condition), "else"]) == 0;
+    }
+
+    async mutate(mutation: Mutation): Promise<void> {
+        // Don't actually sit around waiting
+        if (mutation != null && compileMutation(mutation).call?.name == "wait") return;
+
+        return super.mutate(mutation);
+    }
+
+    /**
+     * Pick an option at a fork (either the one being replayed or the first option)
+     * @param lineId The line with the fork
+     * @param type What kind of fork it is
+     * @param options The labels for each option
+     * @returns The index of the option to take
+     */
+    private choose(lineId: string, type: "response" | "condition", options: Array<string>): number {
+        const index = this.steps.length;
+        const fork = lineId + ":" + this.getStateSignature();
+
+        let choice: number;
+        if (index < this.replay.length) {
+            choice = this.replay[index];
+        } else {
+            // Coming back around to a forced condition without choosing a response since is a loop
+            // (the same way that it would be without forcing)
+            const previous = this.forksOnPath[fork];
+            if (previous != null && type == "condition" && !this.steps.slice(previous).some(step => step.type == "response")) {
+                throw new ExplorationStop("loop");
+            }
+            // Coming back around to a choice already made on this path (or explored on another
+            // path) isn't going to find anything new
+            if (previous != null || this.context.explored[fork]) throw new ExplorationStop(null);
+            this.context.explored[fork] = true;
+            this.forks.push({ index, options: options.length });
+            choice = 0;
+        }
+
+        this.forksOnPath[fork] = index;
+        this.linesSinceChoice = {};
+        this.steps.push({ lineId, type, choice, label: options[choice] });
+
+        return choice;
+    }
+
+    private needsChoice(line: DialogueLine): boolean {
+        if (line.type == TYPE_RESPONSE) return line.responses.length > 0;
+        return line.responses.length > 1;
+    }
+
+    private visit(id: string): void {
+        if (this.context.report.routes[id] != null) return;
+        this.context.report.routes[id] = {
+            stateIndex: this.context.stateIndex,
+            steps: this.steps.slice()
+        };
+    }
+
+    /**
+     * Sum up the game states so that the same line can be told apart under different states
+     * @returns A string that is the same whenever the game states are the same
+     */
+    private getStateSignature(): string {
+        // Forced branches don't depend on game state at all
+        if (this.isForcing) return "";
+        try {
+            return JSON.stringify([this.gameStates, this._internalState]);
+        } catch (e) {
+            // Anything that can't be compared is treated as always different
+            return String(this.context.steps);
+        }
+    }
+}
+
+
+/**
+ * Thrown to stop playing through a path early
+ */
+class ExplorationStop extends Error {
+    // Null when the path should just be dropped
+    ending: ExplorationEnding;
+
+    constructor(ending: ExplorationEnding) {
+        super("Stopped exploring");
+        Object.setPrototypeOf(this, ExplorationStop.prototype);
+        this.ending = ending;
+    }
+}
+
+
+function describeCondition(condition: Condition): string {
+    try {
+        return stringifyExpression(compileCondition(condition));
+    } catch (e) {
+        return "(invalid condition)";
+    }
+}
@@ -0,0 +1,751 @@
+import { TYPE_FUNCTION, TYPE_SCALAR, TYPE_ERROR, UNSAFE_PROPERTIES } from "./constants";
+import { DialogueSyntaxError, BadExportError, MissingPropertyError } from "./errors";
+import type { Condition, Mutation, Replacement } from "./types";
+
+
+const UNARY_OPERATORS = ["not", "!", "-"];
+const BINARY_OPERATORS = ["==", "!=", "<>", "<=", ">=", "&&", "||", "+", "-", "*", "/", "%", "<", ">", "=", "and", "or", "in"];
+
+const NOT_PRECEDENCE = 3;
+const BINARY_PRECEDENCE: Record<string, number> = {
+    "or": 1,
+    "and": 2,
+    "==": 4, "!=": 4, "<": 4, ">": 4, "<=": 4, ">=": 4, "in": 4,
+    "+": 5, "-": 5,
+    "*": 6, "/": 6, "%": 6
+};
+const OPERATOR_ALIASES: Record<string, string> = {
+    "&&": "and",
+    "||": "or",
+    "!": "not",
+    "=": "==",
+    "<>": "!="
+};
+
+// A name followed by any number of ".property", ["key"] or [0]
+const IDENTIFIER_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]*(\.[a-zA-Z_][a-zA-Z0-9_]*|\[\s*("[^"]*"|-?[0-9]+)\s*\])*/;
+const PATH_PART_REGEX = /^(?:\.?([a-zA-Z_][a-zA-Z0-9_]*)|\[\s*(?:"([^"]*)"|(-?[0-9]+))\s*\])/;
+const NUMBER_REGEX = /^-?[0-9]+(\.[0-9]+)?/;
+
+
+export type Token = {
+    type: "value" | "operator" | "group" | "function" | "list" | "dictionary";
+    value: any;
+    function?: string;
+}
+
+export type ExpressionNode =
+    { type: "literal", value: any } |
+    { type: "variable", name: string, path: Array<string> } |
+    { type: "call", name: string, args: Array<ExpressionNode> } |
+    { type: "list", items: Array<ExpressionNode> } |
+    { type: "dictionary", entries: Array<[ExpressionNode, ExpressionNode]> } |
+    { type: "unary", operator: string, operand: ExpressionNode } |
+    { type: "binary", operator: string, lhs: ExpressionNode, rhs: ExpressionNode };
+
+// What an evaluator needs to get values from (and run functions on) the game states
+export type ExpressionRuntime = {
+    getValue(path: Array<string>, typeHint: string): any;
+    call(name: string, args: Array<any>): any;
+    apply(operator: string, lhs: any, rhs: any): any;
+}
+
+export type Evaluator = (runtime: ExpressionRuntime) => any;
+
+export type CompiledMutation = {
+    call?: { name: string, args: Array<ExpressionNode> };
+    property?: string;
+    // The property split into its parts (eg. quests["intro"].done is ["quests", "intro", "done"])
+    path?: Array<string>;
+    operator?: string;
+    value?: ExpressionNode;
+}
+
+
+// Compiled expressions are cached against the objects they came from so that each one is
+// only ever parsed once (so they have to be forgotten if the resource is changed)
+const compiledObjects = new WeakMap<object, any>();
+// Text can come from anywhere (eg. game code) so only the most recently compiled text is kept
+const MAX_COMPILED_TEXT = 1000;
+const compiledSources = new Map<string, ExpressionNode>();
+const compiledStateValues = new Map<string, ExpressionNode>();
+// Evaluators for each compiled expression (one for each type hint)
+const evaluators = new WeakMap<ExpressionNode, Record<string, Evaluator>>();
+
+
+/**
+ * Compile a condition into a single expression
+ * @param condition A condition from a dialogue resource
+ * @returns The compiled expression
+ */
+export function compileCondition(condition: Condition): ExpressionNode {
+    return cached(condition, () => {
+        if (condition.lhs_type == TYPE_ERROR || condition.rhs_type == TYPE_ERROR) {
+            throw new BadExportError("condition");
+        }
+
+        const lhs = compileSide(condition.lhs_type, condition.lhs_function, condition.lhs_args, condition.lhs);
+        if (!condition.operator) return lhs;
+
+        const rhs = compileSide(condition.rhs_type, condition.rhs_function, condition.rhs_args, condition.rhs);
+        return { type: "binary", operator: normaliseOperator(condition.operator), lhs, rhs };
+    });
+}
+
+
+/**
+ * Compile a mutation into either a function call or an assignment
+ * @param mutation A mutation from a dialogue resource
+ * @returns The compiled mutation
+ */
+export function compileMutation(mutation: Mutation): CompiledMutation {
+    return cached(mutation, () => {
+        if (mutation.lhs_type == TYPE_ERROR || (mutation.operator && mutation.rhs_type == TYPE_ERROR)) {
+            throw new BadExportError("mutation");
+        }
+
+        if (mutation.lhs_type == TYPE_FUNCTION) {
+            return { call: { name: mutation.lhs_function, args: compileArgs(mutation.lhs_args) } };
+        }
+
+        const path = parsePath(mutation.lhs);
+        // Nothing that isn't a valid path can be on a game state
+        if (path == null) throw new MissingPropertyError(mutation.lhs);
+
+        const compiled: CompiledMutation = { property: mutation.lhs, path };
+        if (mutation.operator) {
+            compiled.operator = mutation.operator;
+            compiled.value = compileSide(mutation.rhs_type, mutation.rhs_function, mutation.rhs_args, mutation.rhs);
+        }
+        return compiled;
+    });
+}
+
+
+/**
+ * Compile a replacement into an expression
+ * @param replacement A replacement from a dialogue resource
+ * @returns The compiled expression
+ */
+export function compileReplacement(replacement: Replacement): ExpressionNode {
+    return cached(replacement, () => {
+        switch (replacement.type) {
+            case TYPE_FUNCTION:
+                return { type: "call", name: replacement.function, args: compileArgs(replacement.args) };
+            case TYPE_SCALAR:
+                return compileValue(replacement.value);
+            default:
+                throw new BadExportError("replacement");
+        }
+    });
+}
+
+
+/**
+ * Forget any compiled expressions for a value and everything in it (eg. a resource that was changed)
+ * @param value The value to forget
+ */
+export function forgetCompiled(value: any): void {
+    const stack = [value];
+    while (stack.length > 0) {
+        const next = stack.pop();
+        if (next == null || typeof next !== "object") continue;
+        compiledObjects.delete(next);
+        for (const key of Object.keys(next)) {
+            stack.push(next[key]);
+        }
+    }
+}
+
+
+/**
+ * Compile a raw value, a source string or a list of tokens
+ * @param value The value to compile
+ * @returns The compiled expression
+ */
+export function compileValue(value: any): ExpressionNode {
+    if (Array.isArray(value)) {
+        return cached(value, () => parseTokens(value));
+    }
+
+    if (typeof value === "string") {
+        return cachedText(compiledSources, value, () => parseTokens(tokenise(value)));
+    }
+
+    return { type: "literal", value };
+}
+
+
+/**
+ * Break an expression into tokens
+ * @param text The raw expression
+ * @param lineNumber The line number of the expression (if it came from raw dialogue)
+ * @param column The column the expression starts at
+ * @returns A list of tokens
+ */
+export function tokenise(text: string, lineNumber: number = null, column: number = 1): Array<Token> {
+    const tokens: Array<Token> = [];
+
+    let i = 0;
+    while (i < text.length) {
+        const c = text[i];
+        const expectingValue = tokens.length === 0 || tokens[tokens.length - 1].type === "operator";
+
+        if (c.match(/\s/)) {
+            i++;
+            continue;
+        }
+
+        const operator = matchOperator(text, i, expectingValue);
+        if (operator != null) {
+            tokens.push({ type: "operator", value: operator });
+            i += operator.length;
+            continue;
+        }
+
+        if (!expectingValue) {
+            throw new DialogueSyntaxError("Expected an operator", lineNumber, column + i);
+        }
+
+        // Groups, lists and dictionaries
+        if (c === "(" || c === "[" || c === "{") {
+            const close = findClosingBracket(text, i);
+            if (close === -1) throw new DialogueSyntaxError("Missing closing bracket", lineNumber, column + i);
+            const inner = text.slice(i + 1, close);
+            const innerColumn = column + i + 1;
+
+            if (c === "(") {
+                if (inner.trim() === "") throw new DialogueSyntaxError("Empty group", lineNumber, column + i);
+                tokens.push({ type: "group", value: tokenise(inner, lineNumber, innerColumn) });
+            } else if (c === "[") {
+                tokens.push({ type: "list", value: tokeniseList(inner, lineNumber, innerColumn) });
+            } else {
+                const entries = inner.trim() === "" ? [] : splitTopLevel(inner).map(entry => {
+                    const pair = splitTopLevel(entry.text, ":");
+                    if (pair.length !== 2) throw new DialogueSyntaxError("Expected 'key: value'", lineNumber, innerColumn + entry.offset);
+                    return pair.map(part => {
+                        if (part.text.trim() === "") throw new DialogueSyntaxError("Missing value", lineNumber, innerColumn + entry.offset + part.offset);
+                        return tokenise(part.text, lineNumber, innerColumn + entry.offset + part.offset);
+                    });
+                });
+                tokens.push({ type: "dictionary", value: entries });
+            }
+            i = close + 1;
+            continue;
+        }
+
+        // Strings
+        if (c === "\"") {
+            const close = text.indexOf("\"", i + 1);
+            if (close === -1) throw new DialogueSyntaxError("Missing closing quote", lineNumber, column + i);
+            tokens.push({ type: "value", value: text.slice(i, close + 1) });
+            i = close + 1;
+            continue;
+        }
+
+        // Numbers
+        const number = text.slice(i).match(NUMBER_REGEX);
+        if (number != null) {
+            tokens.push({ type: "value", value: number[0] });
+            i += number[0].length;
+            continue;
+        }
+
+        // Variables and function calls
+        const identifier = text.slice(i).match(IDENTIFIER_REGEX);
+        if (identifier == null) {
+            throw new DialogueSyntaxError("Unexpected '" + c + "'", lineNumber, column + i);
+        }
+        const end = i + identifier[0].length;
+        if (text[end] === "(") {
+            const close = findClosingBracket(text, end);
+            if (close === -1) throw new DialogueSyntaxError("Missing closing bracket", lineNumber, column + end);
+            tokens.push({
+                type: "function",
+                function: identifier[0],
+                value: tokeniseList(text.slice(end + 1, close), lineNumber, column + end + 1)
+            });
+            i = close + 1;
+        } else {
+            tokens.push({ type: "value", value: identifier[0] });
+            i = end;
+        }
+    }
+
+    if (tokens.length > 0 && tokens[tokens.length - 1].type === "operator") {
+        throw new DialogueSyntaxError("Missing value after '" + tokens[tokens.length - 1].value + "'", lineNumber, column + text.length);
+    }
+
+    return tokens;
+}
+
+
+/**
+ * Split some text on a separator, ignoring anything inside strings or brackets
+ * @param text The raw text
+ * @param separator The separator to split on
+ * @returns Each part with its offset into the text
+ */
+export function splitTopLevel(text: string, separator: string = ","): Array<{ text: string, offset: number }> {
+    const parts: Array<{ text: string, offset: number }> = [];
+
+    let start = 0;
+    let depth = 0;
+    let inString = false;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (c === "\"") {
+            inString = !inString;
+        } else if (inString) {
+            continue;
+        } else if ("([{".indexOf(c) > -1) {
+            depth++;
+        } else if (")]}".indexOf(c) > -1) {
+            depth--;
+        } else if (c === separator && depth === 0) {
+            parts.push({ text: text.slice(start, i), offset: start });
+            start = i + 1;
+            // Only split on the first ":" in a dictionary entry
+            if (separator === ":") break;
+        }
+    }
+    parts.push({ text: text.slice(start), offset: start });
+
+    return parts;
+}
+
+
+/**
+ * Find the bracket that closes the one at a given index
+ * @param text The raw expression
+ * @param index The index of an opening bracket
+ * @returns The index of the closing bracket or -1 if there isn't one
+ */
+export function findClosingBracket(text: string, index: number): number {
+    let depth = 0;
+    let inString = false;
+    for (let i = index; i < text.length; i++) {
+        const c = text[i];
+        if (c === "\"") {
+            inString = !inString;
+        } else if (inString) {
+            continue;
+        } else if ("([{".indexOf(c) > -1) {
+            depth++;
+        } else if (")]}".indexOf(c) > -1) {
+            depth--;
+            if (depth === 0) return i;
+        }
+    }
+    return -1;
+}
+
+
+/**
+ * Turn a list of tokens into an expression tree
+ * @param tokens A list of tokens
+ * @returns The root of the expression
+ */
+export function parseTokens(tokens: Array<Token>): ExpressionNode {
+    if (tokens.length === 0) throw new Error("Empty expression");
+
+    const parser = { tokens, index: 0 };
+    const node = parseBinary(parser, 0);
+    if (parser.index < tokens.length) {
+        throw new Error("Unexpected '" + tokens[parser.index].value + "' in expression");
+    }
+    return node;
+}
+
+
+/**
+ * Compile a single value from game code (eg. for getStateValue). Anything that isn't a
+ * literal is treated as a property, even if it isn't a valid path
+ * @param text A literal or a property name
+ * @returns The compiled value
+ */
+export function compileStateValue(text: string): ExpressionNode {
+    return cachedText(compiledStateValues, text, (): ExpressionNode => {
+        const lowered = text.toLowerCase();
+        if (text.match(/^".*"$/)) {
+            return { type: "literal", value: text.slice(1, -1) };
+        } else if (lowered === "true" || lowered === "yes") {
+            return { type: "literal", value: true };
+        } else if (lowered === "false" || lowered === "no") {
+            return { type: "literal", value: false };
+        } else if (parseInt(text, 10).toString() === text) {
+            return { type: "literal", value: parseInt(text, 10) };
+        } else if (parseFloat(text).toString() === text) {
+            return { type: "literal", value: parseFloat(text) };
+        }
+        const path = parsePath(text) ?? [text];
+        return { type: "variable", name: path.shift(), path };
+    });
+}
+
+
+/**
+ * Turn a compiled expression into a function so that running it again doesn't need to walk the tree
+ * @param node A compiled expression
+ * @param typeHint A hint for default types when using non-strict mode
+ * @returns A function that evaluates the expression
+ */
+export function compileEvaluator(node: ExpressionNode, typeHint: string = "boolean"): Evaluator {
+    let byTypeHint = evaluators.get(node);
+    if (byTypeHint == null) {
+        byTypeHint = {};
+        evaluators.set(node, byTypeHint);
+    }
+    if (byTypeHint[typeHint] == null) {
+        byTypeHint[typeHint] = buildEvaluator(node, typeHint);
+    }
+    return byTypeHint[typeHint];
+}
+
+
+/**
+ * Turn a single raw value into a literal or a variable
+ * @param value A raw value
+ * @returns The compiled value
+ */
+export function parseValue(value: any): ExpressionNode {
+    if (typeof value !== "string") {
+        return { type: "literal", value };
+    }
+
+    if (value.match(/^".*"$/)) {
+        return { type: "literal", value: value.slice(1, -1) };
+    }
+
+    const lowered = value.toLowerCase();
+    if (lowered === "true" || lowered === "yes") return { type: "literal", value: true };
+    if (lowered === "false" || lowered === "no") return { type: "literal", value: false };
+
+    const number = value.match(NUMBER_REGEX);
+    if (number != null && number[0] === value) {
+        return { type: "literal", value: parseFloat(value) };
+    }
+
+    const path = parsePath(value);
+    if (path != null) {
+        return { type: "variable", name: path.shift(), path };
+    }
+
+    throw new Error("'" + value + "' is not a valid value");
+}
+
+
+/**
+ * Split a property path into its parts
+ * @param text A property path (eg. player.inventory.gold or quests["intro"].done)
+ * @returns A list of property names or null if the text isn't a (safe) path
+ */
+export function parsePath(text: string): Array<string> {
+    const identifier = text.match(IDENTIFIER_REGEX);
+    if (identifier == null || identifier[0] !== text) return null;
+
+    const path: Array<string> = [];
+    let rest = text;
+    while (rest !== "") {
+        const part = rest.match(PATH_PART_REGEX);
+        path.push(part[1] ?? part[2] ?? part[3]);
+        rest = rest.slice(part[0].length);
+    }
+    // Dialogue can't reach into prototypes
+    if (path.some(part => UNSAFE_PROPERTIES.indexOf(part) > -1)) return null;
+    return path;
+}
+
+
+/**
+ * Join the parts of a property path back together
+ * @param path A list of property names
+ * @returns The path as text
+ */
+export function stringifyPath(path: Array<string>): string {
+    return path.map((part, index) => {
+        if (part.match(/^[a-zA-Z_][a-zA-Z0-9_]*$/)) return index == 0 ? part : "." + part;
+        if (index > 0 && part.match(/^-?[0-9]+$/)) return "[" + part + "]";
+        return "[\"" + part + "\"]";
+    }).join("");
+}
+
+
+/**
+ * Turn a compiled expression back into readable source
+ * @param node A compiled expression
+ * @returns The expression as text
+ */
+export function stringifyExpression(node: ExpressionNode): string {
+    switch (node.type) {
+        case "literal":
+            return typeof node.value === "string" ? "\"" + node.value + "\"" : String(node.value);
+        case "variable":
+            return stringifyPath([node.name].concat(node.path));
+        case "call":
+            return node.name + "(" + node.args.map(stringifyExpression).join(", ") + ")";
+        case "list":
+            return "[" + node.items.map(stringifyExpression).join(", ") + "]";
+        case "dictionary":
+            return "{" + node.entries.map(([key, value]) => stringifyExpression(key) + ": " + stringifyExpression(value)).join(", ") + "}";
+        case "unary":
+            return node.operator == "not" ? "not " + stringifyOperand(node.operand, NOT_PRECEDENCE) : "-" + stringifyOperand(node.operand, 7);
+        case "binary":
+            const precedence = BINARY_PRECEDENCE[node.operator];
+            return stringifyOperand(node.lhs, precedence) + " " + node.operator + " " + stringifyOperand(node.rhs, precedence + 1);
+    }
+}
+
+
+/**
+ * Describe a condition in words (eg. "gold >= 10" is "gold of at least 10")
+ * @param node A compiled expression
+ * @returns The description
+ */
+export function describeExpression(node: ExpressionNode): string {
+    switch (node.type) {
+        case "unary":
+            return node.operator == "not" ? "not " + describeExpression(node.operand) : stringifyExpression(node);
+        case "binary":
+            const lhs = describeExpression(node.lhs);
+            const rhs = describeExpression(node.rhs);
+            switch (node.operator) {
+                case "and":
+                case "or":
+                    return lhs + " " + node.operator + " " + rhs;
+                case "==":
+                    if (node.rhs.type == "literal" && typeof node.rhs.value === "boolean") return node.rhs.value ? lhs : "not " + lhs;
+                    return lhs + " to be " + rhs;
+                case "!=":
+                    return lhs + " not to be " + rhs;
+                case ">=":
+                    return lhs + " of at least " + rhs;
+                case ">":
+                    return lhs + " of more than " + rhs;
+                case "<=":
+                    return lhs + " of at most " + rhs;
+                case "<":
+                    return lhs + " of less than " + rhs;
+                case "in":
+                    return lhs + " in " + rhs;
+            }
+            return stringifyExpression(node);
+        default:
+            return stringifyExpression(node);
+    }
+}
+
+
+/**
+ * Turn a mutation back into readable source
+ * @param mutation A mutation from a dialogue resource
+ * @returns The mutation as text (eg. "set gold += 1")
+ */
+export function stringifyMutation(mutation: Mutation): string {
+    const compiled = compileMutation(mutation);
+    if (compiled.call) {
+        return "do " + stringifyExpression({ type: "call", name: compiled.call.name, args: compiled.call.args });
+    }
+    if (!compiled.operator) return "set " + compiled.property;
+    return "set " + compiled.property + " " + compiled.operator + " " + stringifyExpression(compiled.value);
+}
+
+
+function stringifyOperand(node: ExpressionNode, precedence: number): string {
+    const text = stringifyExpression(node);
+    const needsGroup = (node.type == "binary" && BINARY_PRECEDENCE[node.operator] < precedence)
+        || (node.type == "unary" && node.operator == "not" && NOT_PRECEDENCE < precedence);
+    return needsGroup ? "(" + text + ")" : text;
+}
+
+
+function buildEvaluator(node: ExpressionNode, typeHint: string): Evaluator {
+    switch (node.type) {
+        case "literal":
+            const value = node.value;
+            return () => value;
+
+        case "variable":
+            const path = [node.name].concat(node.path);
+            return runtime => runtime.getValue(path, typeHint);
+
+        case "call":
+            const name = node.name;
+            const args = node.args.map(arg => compileEvaluator(arg));
+            return runtime => runtime.call(name, args.map(arg => arg(runtime)));
+
+        case "list":
+            const items = node.items.map(item => compileEvaluator(item));
+            return runtime => items.map(item => item(runtime));
+
+        case "dictionary":
+            const entries = node.entries.map(([key, value]) => [compileEvaluator(key), compileEvaluator(value)]);
+            return runtime => {
+                const dictionary = {};
+                for (const [key, value] of entries) {
+                    dictionary[key(runtime)] = value(runtime);
+                }
+                return dictionary;
+            };
+
+        case "unary":
+            if (node.operator == "not") {
+                const operand = compileEvaluator(node.operand);
+                return runtime => !operand(runtime);
+            } else {
+                const operand = compileEvaluator(node.operand, "number");
+                return runtime => -operand(runtime);
+            }
+
+        case "binary":
+            const operator = node.operator;
+            // Boolean operators short-circuit
+            if (operator == "and" || operator == "or") {
+                const lhs = compileEvaluator(node.lhs);
+                const rhs = compileEvaluator(node.rhs);
+                return operator == "and" ? runtime => lhs(runtime) && rhs(runtime) : runtime => lhs(runtime) || rhs(runtime);
+            } else {
+                const lhs = compileEvaluator(node.lhs, typeHint);
+                const rhs = compileEvaluator(node.rhs, typeHint);
+                return runtime => runtime.apply(operator, lhs(runtime), rhs(runtime));
+            }
+    }
+}
+
+
+function cached<T>(key: object, build: () => T): T {
+    if (!compiledObjects.has(key)) {
+        compiledObjects.set(key, build());
+    }
+    return compiledObjects.get(key);
+}
+
+
+/**
+ * Compile some text once, forgetting the oldest text once there is too much
+ * @param cache Where the text is cached
+ * @param text The text
+ * @param build Compiles the text
+ * @returns The compiled expression
+ */
+function cachedText(cache: Map<string, ExpressionNode>, text: string, build: () => ExpressionNode): ExpressionNode {
+    let node = cache.get(text);
+    if (node == null) {
+        node = build();
+        if (cache.size >= MAX_COMPILED_TEXT) cache.delete(cache.keys().next().value);
+        cache.set(text, node);
+    }
+    return node;
+}
+
+
+function compileSide(type: string, functionName: string, args: Array<any>, value: any): ExpressionNode {
+    switch (type) {
+        case TYPE_FUNCTION:
+            return { type: "call", name: functionName, args: compileArgs(args) };
+        case TYPE_SCALAR:
+            return compileValue(value);
+        default:
+            throw new Error("Unknown expression type '" + type + "'");
+    }
+}
+
+
+function compileArgs(args: Array<any>): Array<ExpressionNode> {
+    return (args ?? []).map(arg => compileValue(arg));
+}
+
+
+function normaliseOperator(operator: string): string {
+    return OPERATOR_ALIASES[operator] ?? operator;
+}
+
+
+function tokeniseList(text: string, lineNumber: number, column: number): Array<Array<Token>> {
+    if (text.trim() === "") return [];
+
+    return splitTopLevel(text).map(item => {
+        if (item.text.trim() === "") throw new DialogueSyntaxError("Missing value", lineNumber, column + item.offset);
+        return tokenise(item.text, lineNumber, column + item.offset);
+    });
+}
+
+
+function matchOperator(text: string, index: number, expectingValue: boolean): string {
+    const operators = expectingValue ? UNARY_OPERATORS : BINARY_OPERATORS;
+    for (const operator of operators) {
+        if (text.substr(index, operator.length) !== operator) continue;
+
+        if (operator.match(/^[a-z]+$/)) {
+            // Word operators need to stand on their own
+            if (index > 0 && text[index - 1].match(/[a-zA-Z0-9_.]/)) continue;
+            if (index + operator.length < text.length && text[index + operator.length].match(/[a-zA-Z0-9_]/)) continue;
+        } else if (expectingValue) {
+            // Negative numbers are values rather than operators
+            if (operator === "-" && text[index + 1] && text[index + 1].match(/[0-9]/)) continue;
+            if (operator === "!" && text[index + 1] === "=") continue;
+        }
+
+        return operator;
+    }
+    return null;
+}
+
+
+function parseBinary(parser: { tokens: Array<Token>, index: number }, minPrecedence: number): ExpressionNode {
+    let lhs = parseUnary(parser);
+
+    while (parser.index < parser.tokens.length) {
+        const token = parser.tokens[parser.index];
+        if (token.type !== "operator") {
+            throw new Error("Expected an operator but found '" + token.value + "'");
+        }
+
+        const operator = normaliseOperator(token.value);
+        const precedence = BINARY_PRECEDENCE[operator];
+        if (precedence == null) throw new Error("Unexpected operator '" + token.value + "'");
+        if (precedence <= minPrecedence) break;
+
+        parser.index++;
+        const rhs = parseBinary(parser, precedence);
+        lhs = { type: "binary", operator, lhs, rhs };
+    }
+
+    return lhs;
+}
+
+
+function parseUnary(parser: { tokens: Array<Token>, index: number }): ExpressionNode {
+    const token = parser.tokens[parser.index];
+    if (token == null) throw new Error("Unexpected end of expression");
+
+    if (token.type === "operator") {
+        const operator = normaliseOperator(token.value);
+        parser.index++;
+        switch (operator) {
+            case "not":
+                return { type: "unary", operator, operand: parseBinary(parser, NOT_PRECEDENCE) };
+            case "-":
+                return { type: "unary", operator, operand: parseUnary(parser) };
+            default:
+                throw new Error("Unexpected operator '" + token.value + "'");
+        }
+    }
+
+    parser.index++;
+    switch (token.type) {
+        case "group":
+            return parseTokens(token.value);
+        case "function":
+            return { type: "call", name: token.function, args: token.value.map((arg: Array<Token>) => parseTokens(arg)) };
+        case "list":
+            return { type: "list", items: token.value.map((item: Array<Token>) => parseTokens(item)) };
+        case "dictionary":
+            return {
+                type: "dictionary",
+                entries: token.value.map((entry: Array<Array<Token>>) => [parseTokens(entry[0]), parseTokens(entry[1])])
+            };
+        default:
+            return parseValue(token.value);
+    }
+}
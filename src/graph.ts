@@ -0,0 +1,458 @@
+import { TYPE_CONDITION, TYPE_DIALOGUE, TYPE_GOTO, TYPE_MUTATION, TYPE_RESPONSE } from "./constants";
+import { compileCondition, stringifyExpression, stringifyMutation } from "./expressions";
+import { getOwningTitles, parseResourceKey } from "./utils";
+import type { Condition, DialogueResource, LineData } from "./types";
+
+// Mermaid reserves "end" so the end of the conversation needs a different ID
+const END_ID = "conversation_end";
+
+const DEAD_END_COLOUR = "#f8d7da";
+const UNREACHABLE_COLOUR = "#e2e3e5";
+
+
+export type GraphOptions = {
+    // Only include lines that can be reached from this title
+    title?: string;
+    // Merge runs of dialogue and mutations that lead straight on to each other into one node
+    collapseChains?: boolean;
+    // Colour lines that can never be reached or that lead to missing lines
+    highlight?: boolean;
+}
+
+type GraphNode = {
+    id: string;
+    type: string;
+    labels: Array<string>;
+    title: string;
+    isUnreachable: boolean;
+    isDeadEnd: boolean;
+}
+
+type GraphEdge = {
+    from: string;
+    to: string;
+    label: string;
+}
+
+type Graph = {
+    nodes: Array<GraphNode>;
+    edges: Array<GraphEdge>;
+}
+
+type GraphTarget = {
+    // The node ID or null if the line doesn't exist
+    id: string;
+    label: string;
+    // The key in another resource (eg. "chapter2/Some title") that this leads to
+    external?: string;
+}
+
+
+/**
+ * Draw a dialogue resource as a Graphviz DOT graph
+ * @param resource A dialogue resource
+ * @param options Which parts of the graph to draw and how
+ * @returns The DOT source
+ */
+export function toDot(resource: DialogueResource, options: GraphOptions = {}): string {
+    const graph = buildGraph(resource, options);
+    const lines = ["digraph dialogue {", "    node [shape=box];"];
+
+    const drawNode = (node: GraphNode, indent: string) => {
+        const attributes = ["label=" + toDotString(node.labels.join("\n"))];
+        const styles = [];
+        switch (node.type) {
+            case TYPE_RESPONSE:
+                styles.push("rounded");
+                break;
+            case TYPE_MUTATION:
+                attributes.push("shape=parallelogram");
+                break;
+            case "title":
+                attributes.push("shape=cds");
+                break;
+            case "end":
+                attributes.push("shape=doublecircle");
+                break;
+            case "external":
+                styles.push("dashed");
+                break;
+        }
+        const colour = options.highlight ? getHighlightColour(node) : null;
+        if (colour != null) {
+            styles.push("filled");
+            attributes.push("fillcolor=" + toDotString(colour));
+        }
+        if (styles.length > 0) attributes.push("style=" + toDotString(styles.join(",")));
+        lines.push(indent + node.id + " [" + attributes.join(", ") + "];");
+    }
+
+    getClusters(graph).forEach((title, index) => {
+        lines.push("    subgraph cluster_" + index + " {");
+        lines.push("        label=" + toDotString(title) + ";");
+        graph.nodes.filter(node => node.title == title).forEach(node => drawNode(node, "        "));
+        lines.push("    }");
+    });
+    graph.nodes.filter(node => node.title == null).forEach(node => drawNode(node, "    "));
+
+    for (const edge of graph.edges) {
+        const label = edge.label !== "" ? " [label=" + toDotString(edge.label) + "]" : "";
+        lines.push("    " + edge.from + " -> " + edge.to + label + ";");
+    }
+
+    lines.push("}");
+    return lines.join("\n") + "\n";
+}
+
+
+/**
+ * Draw a dialogue resource as a Mermaid flowchart
+ * @param resource A dialogue resource
+ * @param options Which parts of the graph to draw and how
+ * @returns The Mermaid source
+ */
+export function toMermaid(resource: DialogueResource, options: GraphOptions = {}): string {
+    const graph = buildGraph(resource, options);
+    const lines = ["flowchart TD"];
+
+    const drawNode = (node: GraphNode, indent: string) => {
+        const label = toMermaidString(node.labels.join("\n"));
+        switch (node.type) {
+            case TYPE_RESPONSE:
+                return lines.push(indent + node.id + "([" + label + "])");
+            case TYPE_MUTATION:
+                return lines.push(indent + node.id + "[/" + label + "/]");
+            case "title":
+                return lines.push(indent + node.id + "{{" + label + "}}");
+            case "end":
+                return lines.push(indent + node.id + "((" + label + "))");
+            case "external":
+                return lines.push(indent + node.id + "[[" + label + "]]");
+            default:
+                return lines.push(indent + node.id + "[" + label + "]");
+        }
+    }
+
+    getClusters(graph).forEach((title, index) => {
+        lines.push("    subgraph cluster_" + index + " [" + toMermaidString(title) + "]");
+        graph.nodes.filter(node => node.title == title).forEach(node => drawNode(node, "        "));
+        lines.push("    end");
+    });
+    graph.nodes.filter(node => node.title == null).forEach(node => drawNode(node, "    "));
+
+    for (const edge of graph.edges) {
+        const label = edge.label !== "" ? "|" + toMermaidString(edge.label) + "|" : "";
+        lines.push("    " + edge.from + " -->" + label + " " + edge.to);
+    }
+
+    if (options.highlight) {
+        const deadEnds = graph.nodes.filter(node => getHighlightColour(node) == DEAD_END_COLOUR).map(node => node.id);
+        const unreachable = graph.nodes.filter(node => getHighlightColour(node) == UNREACHABLE_COLOUR).map(node => node.id);
+        lines.push("    classDef deadEnd fill:" + DEAD_END_COLOUR);
+        lines.push("    classDef unreachable fill:" + UNREACHABLE_COLOUR);
+        if (deadEnds.length > 0) lines.push("    class " + deadEnds.join(",") + " deadEnd");
+        if (unreachable.length > 0) lines.push("    class " + unreachable.join(",") + " unreachable");
+    }
+
+    return lines.join("\n") + "\n";
+}
+
+
+/**
+ * Turn a dialogue resource into nodes and edges
+ * @param resource A dialogue resource
+ * @param options Which parts of the graph to include
+ * @returns The graph
+ */
+function buildGraph(resource: DialogueResource, options: GraphOptions): Graph {
+    if (options.title != null && resource.titles[options.title] == null) {
+        throw new Error("Unknown title '" + options.title + "'");
+    }
+
+    const owners = getOwningTitles(resource);
+    const titles = Object.keys(resource.titles);
+    const externals: Array<string> = [];
+    const graph: Graph = { nodes: [], edges: [] };
+
+    const addNode = (id: string, type: string, label: string, title: string, key: string) => {
+        const node = { id, type, labels: [label], title, isUnreachable: false, isDeadEnd: false };
+        graph.nodes.push(node);
+        if (key == null) return;
+        for (const target of getTargets(resource, key)) {
+            if (target.external != null) {
+                // Each key in another resource gets one node (added the first time something goes to it)
+                if (externals.indexOf(target.external) == -1) {
+                    externals.push(target.external);
+                    addNode("external_" + (externals.length - 1), "external", target.external, null, null);
+                }
+                graph.edges.push({ from: id, to: "external_" + externals.indexOf(target.external), label: target.label });
+            } else if (target.id == null) {
+                node.isDeadEnd = true;
+            } else {
+                graph.edges.push({ from: id, to: target.id, label: target.label });
+            }
+        }
+    }
+
+    titles.forEach((title, index) => addNode("title_" + index, "title", title, title, resource.titles[title]));
+    for (const id of Object.keys(resource.lines)) {
+        const data = resource.lines[id];
+        if (data.type == TYPE_DIALOGUE || data.type == TYPE_RESPONSE || data.type == TYPE_MUTATION) {
+            addNode("line_" + id, data.type, describeLine(data), owners[id] ?? null, data.next_id);
+        }
+    }
+    addNode(END_ID, "end", "END", null, null);
+
+    // Anything that can't be reached from a title will never be shown
+    const outgoing = getOutgoingEdges(graph.edges);
+    const reachable = getReachable(outgoing, graph.nodes.filter(node => node.type == "title").map(node => node.id));
+    for (const node of graph.nodes) {
+        node.isUnreachable = node.type != "title" && node.type != "end" && node.type != "external" && !reachable[node.id];
+    }
+
+    if (options.title != null) {
+        const subgraph = getReachable(outgoing, ["title_" + titles.indexOf(options.title)]);
+        graph.nodes = graph.nodes.filter(node => subgraph[node.id]);
+        graph.edges = graph.edges.filter(edge => subgraph[edge.from]);
+    }
+
+    if (options.collapseChains) {
+        collapseChains(graph);
+    }
+
+    // Only draw the end if something goes to it
+    if (!graph.edges.some(edge => edge.to == END_ID)) {
+        graph.nodes = graph.nodes.filter(node => node.id != END_ID);
+    }
+
+    return graph;
+}
+
+
+/**
+ * Follow a line key through any conditions and gotos until it gets to something drawable
+ * @param resource A dialogue resource
+ * @param key A title or line key
+ * @returns The nodes that the key can lead to
+ */
+function getTargets(resource: DialogueResource, key: string): Array<GraphTarget> {
+    const targets: Array<GraphTarget> = [];
+    // The conditions and gotos on the way to the key being followed
+    const onPath: Record<string, boolean> = {};
+
+    // Followed with an explicit stack so that long chains of gotos can't overflow the call stack.
+    // Once everything after a line has been followed it is taken back off the path
+    const stack: Array<{ key: string, path: Array<string>, leaving?: string }> = [{ key, path: [] }];
+    while (stack.length > 0) {
+        const { key, path, leaving } = stack.pop();
+        if (leaving != null) {
+            delete onPath[leaving];
+            continue;
+        }
+
+        if (key == null || key === "") {
+            targets.push({ id: END_ID, label: path.join(", ") });
+            continue;
+        }
+
+        const id = resource.titles[key] ?? key;
+        const data = resource.lines[id];
+        if (data == null && parseResourceKey(key) != null) {
+            targets.push({ id: null, label: path.join(", "), external: key });
+            continue;
+        }
+        if (data == null || onPath[id]) {
+            targets.push({ id: null, label: path.join(", ") });
+            continue;
+        }
+
+        if (data.type == TYPE_CONDITION || data.type == TYPE_GOTO) {
+            onPath[id] = true;
+            stack.push({ key: null, path: null, leaving: id });
+        }
+
+        switch (data.type) {
+            case TYPE_CONDITION:
+                // An else block is a condition without a condition
+                if (data.condition == null) {
+                    stack.push({ key: data.next_id, path });
+                    continue;
+                }
+
+                // Following on from an else makes it an elif
+                const isElse = path[path.length - 1] == "else";
+                const text = describeCondition(data.condition);
+                const passPath = isElse ? path.slice(0, -1).concat("elif " + text) : path.concat("if " + text);
+                const failPath = isElse ? path : path.concat("else");
+                // The last thing pushed is followed first
+                stack.push({ key: data.next_conditional_id, path: failPath });
+                stack.push({ key: data.next_id, path: passPath });
+                continue;
+
+            case TYPE_GOTO:
+                stack.push({ key: data.next_id, path: path.concat("goto " + describeTarget(resource, data.next_id)) });
+                continue;
+
+            case TYPE_RESPONSE:
+                if (data.responses == null) break;
+                data.responses.forEach((responseId, index) => targets.push({
+                    id: resource.lines[responseId] != null ? "line_" + responseId : null,
+                    label: path.concat("choice " + (index + 1)).join(", ")
+                }));
+                continue;
+        }
+
+        targets.push({ id: "line_" + id, label: path.join(", ") });
+    }
+
+    return targets;
+}
+
+
+/**
+ * Group edges by the node they start from
+ * @param edges The edges of a graph
+ * @returns A map of node IDs to the edges leaving them
+ */
+function getOutgoingEdges(edges: Array<GraphEdge>): Record<string, Array<GraphEdge>> {
+    const outgoing: Record<string, Array<GraphEdge>> = {};
+    for (const edge of edges) {
+        if (outgoing[edge.from] == null) outgoing[edge.from] = [];
+        outgoing[edge.from].push(edge);
+    }
+    return outgoing;
+}
+
+
+/**
+ * Find every node that can be reached from some starting nodes
+ * @param outgoing The edges leaving each node
+ * @param from The node IDs to start from
+ * @returns A set of node IDs
+ */
+function getReachable(outgoing: Record<string, Array<GraphEdge>>, from: Array<string>): Record<string, boolean> {
+    const reachable: Record<string, boolean> = {};
+    const queue = from.slice();
+    while (queue.length > 0) {
+        const id = queue.pop();
+        if (reachable[id]) continue;
+        reachable[id] = true;
+        for (const edge of outgoing[id] ?? []) queue.push(edge.to);
+    }
+    return reachable;
+}
+
+
+/**
+ * Merge nodes that only ever lead straight on to one other node
+ * @param graph The graph to change
+ */
+function collapseChains(graph: Graph): void {
+    const isChainable = (node: GraphNode) => node != null && (node.type == TYPE_DIALOGUE || node.type == TYPE_MUTATION);
+
+    const nodes: Record<string, GraphNode> = {};
+    const incoming: Record<string, number> = {};
+    for (const node of graph.nodes) nodes[node.id] = node;
+    for (const edge of graph.edges) incoming[edge.to] = (incoming[edge.to] ?? 0) + 1;
+    const outgoing = getOutgoingEdges(graph.edges);
+
+    const merged = new Set<GraphNode>();
+    const removed = new Set<GraphEdge>();
+    for (const node of graph.nodes) {
+        if (merged.has(node) || !isChainable(node)) continue;
+
+        // Keep pulling in the next node for as long as the chain goes
+        while (outgoing[node.id]?.length == 1 && outgoing[node.id][0].label === "") {
+            const edge = outgoing[node.id][0];
+            const next = nodes[edge.to];
+            if (!isChainable(next) || next === node || next.title != node.title || incoming[next.id] != 1) break;
+
+            node.labels.push(...next.labels);
+            node.isDeadEnd = node.isDeadEnd || next.isDeadEnd;
+            merged.add(next);
+            removed.add(edge);
+            outgoing[node.id] = outgoing[next.id] ?? [];
+            for (const other of outgoing[node.id]) other.from = node.id;
+            delete outgoing[next.id];
+        }
+    }
+
+    graph.nodes = graph.nodes.filter(node => !merged.has(node));
+    graph.edges = graph.edges.filter(edge => !removed.has(edge));
+}
+
+
+/**
+ * Get the titles that have nodes in them (in the order they appear in the resource)
+ * @param graph The graph
+ * @returns A list of titles
+ */
+function getClusters(graph: Graph): Array<string> {
+    const clusters: Array<string> = [];
+    for (const node of graph.nodes) {
+        if (node.title != null && clusters.indexOf(node.title) == -1) {
+            clusters.push(node.title);
+        }
+    }
+    return clusters;
+}
+
+
+function getHighlightColour(node: GraphNode): string {
+    if (node.isDeadEnd) return DEAD_END_COLOUR;
+    if (node.isUnreachable) return UNREACHABLE_COLOUR;
+    return null;
+}
+
+
+function describeLine(data: LineData): string {
+    switch (data.type) {
+        case TYPE_DIALOGUE:
+            return data.character ? data.character + ": " + data.text : data.text;
+        case TYPE_RESPONSE:
+            const condition = data.condition != null ? " [if " + describeCondition(data.condition) + "]" : "";
+            return "- " + data.text + condition;
+        case TYPE_MUTATION:
+            try {
+                return stringifyMutation(data.mutation);
+            } catch (e) {
+                return "(invalid mutation)";
+            }
+    }
+}
+
+
+function describeCondition(condition: Condition): string {
+    try {
+        return stringifyExpression(compileCondition(condition));
+    } catch (e) {
+        return "(invalid condition)";
+    }
+}
+
+
+function describeTarget(resource: DialogueResource, key: string): string {
+    if (key == null || key === "") return "END";
+    if (resource.titles[key] != null) return key;
+    for (const title of Object.keys(resource.titles)) {
+        if (resource.titles[title] == key) return title;
+    }
+    if (resource.lines[key] == null && parseResourceKey(key) != null) return key;
+    return "line " + key;
+}
+
+
+function toDotString(value: string): string {
+    return "\"" + value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n") + "\"";
+}
+
+
+function toMermaidString(value: string): string {
+    const escaped = value
+        .replace(/#/g, "#35;")
+        .replace(/"/g, "#quot;")
+        .replace(/</g, "#lt;")
+        .replace(/>/g, "#gt;")
+        .replace(/\n/g, "<br/>");
+    return "\"" + escaped + "\"";
+}
@@ -0,0 +1,218 @@
+import { TYPE_DIALOGUE, TYPE_RESPONSE } from "./constants";
+import { getOwningTitles } from "./utils";
+import type { DialogueResource, TranslationProvider } from "./types";
+
+
+export type TranslationFormat = "csv" | "po" | "json";
+
+export type TranslationEntry = {
+    id: string;
+    type: "dialogue" | "response";
+    character: string;
+    text: string;
+    title: string;
+    translation: string;
+}
+
+
+/**
+ * Find every translatable piece of text in a dialogue resource
+ * @param resource A dialogue resource
+ * @param resourceName The name the resource is registered with (if it is) to put in front of each line ID
+ * @returns A list of dialogue and response text keyed by line ID
+ */
+export function extractTranslations(resource: DialogueResource, resourceName: string = null): Array<TranslationEntry> {
+    const titles = getOwningTitles(resource);
+    const entries: Array<TranslationEntry> = [];
+
+    for (const id of Object.keys(resource.lines)) {
+        const data = resource.lines[id];
+        if (data.type != TYPE_DIALOGUE && data.type != TYPE_RESPONSE) continue;
+        if (data.text == null || data.text === "") continue;
+
+        entries.push({
+            id: resourceName != null ? resourceName + "/" + id : id,
+            type: data.type,
+            character: data.character ?? "",
+            text: data.text,
+            title: titles[id] ?? "",
+            translation: ""
+        });
+    }
+
+    return entries;
+}
+
+
+/**
+ * Export the translatable text in a dialogue resource as a translation table
+ * @param resource A dialogue resource
+ * @param format "csv", "po" or "json"
+ * @param resourceName The name the resource is registered with (if it is) to put in front of each line ID
+ * @returns The translation table
+ */
+export function exportTranslations(resource: DialogueResource, format: TranslationFormat, resourceName: string = null): string {
+    const entries = extractTranslations(resource, resourceName);
+
+    switch (format) {
+        case "csv":
+            const rows = [["id", "type", "character", "text", "title", "translation"]];
+            for (const entry of entries) {
+                rows.push([entry.id, entry.type, entry.character, entry.text, entry.title, entry.translation]);
+            }
+            return rows.map(row => row.map(toCSVField).join(",")).join("\n") + "\n";
+
+        case "po":
+            return entries.map(entry => {
+                const lines = [];
+                if (entry.character) lines.push("#. character: " + entry.character);
+                if (entry.title) lines.push("#. title: " + entry.title);
+                lines.push("#. type: " + entry.type);
+                lines.push("msgctxt " + toPOString(entry.id));
+                lines.push("msgid " + toPOString(entry.text));
+                lines.push("msgstr " + toPOString(entry.translation));
+                return lines.join("\n");
+            }).join("\n\n") + "\n";
+
+        case "json":
+            return JSON.stringify(entries, null, 2);
+
+        default:
+            throw new Error("Unknown translation format '" + format + "'");
+    }
+}
+
+
+/**
+ * Read the translations out of a translation table
+ * @param text A translation table made with exportTranslations (and then translated)
+ * @param format "csv", "po" or "json"
+ * @returns A map of line IDs to translated text
+ */
+export function importTranslations(text: string, format: TranslationFormat): Record<string, string> {
+    const translations: Record<string, string> = {};
+
+    switch (format) {
+        case "csv":
+            const rows = parseCSV(text);
+            const header = rows.shift() ?? [];
+            const idIndex = header.indexOf("id");
+            const translationIndex = header.indexOf("translation");
+            if (idIndex == -1 || translationIndex == -1) throw new Error("Translation CSV needs 'id' and 'translation' columns");
+            for (const row of rows) {
+                if (row[translationIndex]) {
+                    translations[row[idIndex]] = row[translationIndex];
+                }
+            }
+            break;
+
+        case "po":
+            let id: string = null;
+            let field: string = null;
+            let values: Record<string, string> = {};
+            const flush = () => {
+                if (id != null && values.msgstr) translations[id] = values.msgstr;
+                id = null;
+                values = {};
+            }
+            for (const rawLine of text.split(/\r?\n/)) {
+                const line = rawLine.trim();
+                if (line === "" || line.indexOf("#") === 0) {
+                    if (line === "") flush();
+                    continue;
+                }
+                const match = line.match(/^(msgctxt|msgid|msgstr)\s+(".*")$/);
+                if (match != null) {
+                    field = match[1];
+                    values[field] = fromPOString(match[2]);
+                } else if (line.match(/^".*"$/) && field != null) {
+                    values[field] += fromPOString(line);
+                }
+                if (field == "msgctxt") id = values.msgctxt;
+            }
+            flush();
+            break;
+
+        case "json":
+            for (const entry of JSON.parse(text) as Array<TranslationEntry>) {
+                if (entry.translation) {
+                    translations[entry.id] = entry.translation;
+                }
+            }
+            break;
+
+        default:
+            throw new Error("Unknown translation format '" + format + "'");
+    }
+
+    return translations;
+}
+
+
+/**
+ * Create a translation provider from some translation tables
+ * @param tables A map of locales to maps of line IDs to translated text
+ * @returns A translation provider for the dialogue manager
+ */
+export function createTranslationProvider(tables: Record<string, Record<string, string>>): TranslationProvider {
+    return (locale: string, lineId: string) => tables[locale]?.[lineId];
+}
+
+
+function toCSVField(value: string): string {
+    if (value.match(/[",\r\n]/)) {
+        return "\"" + value.replace(/"/g, "\"\"") + "\"";
+    }
+    return value;
+}
+
+
+function parseCSV(text: string): Array<Array<string>> {
+    const rows: Array<Array<string>> = [];
+    let row: Array<string> = [];
+    let field = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (inQuotes) {
+            if (c === "\"" && text[i + 1] === "\"") {
+                field += "\"";
+                i++;
+            } else if (c === "\"") {
+                inQuotes = false;
+            } else {
+                field += c;
+            }
+        } else if (c === "\"") {
+            inQuotes = true;
+        } else if (c === ",") {
+            row.push(field);
+            field = "";
+        } else if (c === "\n" || c === "\r") {
+            if (c === "\r" && text[i + 1] === "\n") i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += c;
+        }
+    }
+    if (field !== "" || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows;
+}
+
+
+function toPOString(value: string): string {
+    return "\"" + value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n") + "\"";
+}
+
+
+function fromPOString(value: string): string {
+    return value.slice(1, -1).replace(/\\(.)/g, (_, c) => c === "n" ? "\n" : c);
+}
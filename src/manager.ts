@@ -0,0 +1,1919 @@
+import { TYPE_CONDITION, TYPE_DIALOGUE, TYPE_MUTATION, TYPE_RESPONSE, TYPE_GOTO, AWAITABLE_EVENTS } from "./constants";
+import { DialogueSession } from "./session";
+import { compileCondition, compileMutation, forgetCompiled, compileReplacement, compileValue, parsePath, stringifyPath, stringifyExpression, stringifyMutation, describeExpression, compileEvaluator, compileStateValue } from "./expressions";
+import type { ExpressionNode, CompiledMutation, ExpressionRuntime } from "./expressions";
+import { getProgram, forgetProgram } from "./program";
+import type { ProgramLine } from "./program";
+import { resolveAlternatives, parseMarkup, extractTags } from "./markup";
+import { getStateAdapter, getPathValue, setPathValue } from "./state";
+import { DEFAULT_BUILTINS } from "./builtins";
+import { DialogueTimeoutError, MissingPropertyError, MissingFunctionError, BadExportError, BadOperatorError, BadMarkupError, TypeMismatchError } from "./errors";
+import { parseResourceKey, hashText } from "./utils";
+import { diffResources, findEquivalentLine } from "./reload";
+import { findVoiceAsset } from "./voice";
+import { SeededRandom } from "./random";
+import type { VoiceAssets } from "./voice";
+import type { BuiltinContext, BuiltinFunction } from "./builtins";
+import type { StateAdapter } from "./state";
+import type { DialogueMarker } from "./markup";
+import type { DialogueError, DialogueErrorCategory, DialogueErrorContext } from "./errors";
+import type { AwaitableEventType, DialogueEvents, DialogueEventType, DialogueListener, DialogueWildcardListener, ListenerOptions, RegisteredListener, UnwaitedListenerOptions } from "./events";
+import type { DialogueResource, LineData, LineTags, Condition, Mutation, Replacement, DialogueStateSnapshot, DialogueManagerOptions, TranslationProvider, MissingTranslation, ResourceLoader, TitleCollision, ResourceReload, LineTracking, HistoryEntry, DiagnosticAction, DiagnosticPolicies } from "./types";
+
+
+const SNAPSHOT_VERSION = 1;
+
+const DEFAULT_DIAGNOSTICS: Record<DialogueErrorCategory, DiagnosticAction> = {
+    missing_property: "throw",
+    missing_function: "throw",
+    bad_export: "throw",
+    bad_operator: "throw",
+    type_mismatch: "ignore",
+    bad_markup: "throw"
+};
+
+// Where a conversation is up to (the manager has its own and each session has another)
+type Conversation = {
+    isRunning: boolean;
+    // Interrupting while a line is being stepped to has to wait until it gets there
+    isStepping: boolean;
+    lineId: string;
+    responseIds: Array<string>;
+    disabledResponseIds: Array<string>;
+    resource: DialogueResource;
+    // Aborted when the conversation is interrupted or finishes
+    abortController: AbortController;
+    // Called once the conversation has been moved into a reloaded resource (sessions use this to update their current line)
+    onReload: () => void;
+}
+
+
+export class DialogueManager<TState = any> {
+    // Turning this off is the same as ignoring missing properties and functions (unless diagnostics says otherwise)
+    isStrict: boolean;
+    // What to do with each kind of error (throw it, keep it as a warning, or ignore it)
+    diagnostics: DiagnosticPolicies;
+
+    defaultResource: DialogueResource;
+    // Use a generated GameState interface as TState to have these checked against the dialogue (each
+    // game state only needs to have part of it)
+    gameStates: Array<Partial<TState>>;
+
+    locale: string;
+    translations: TranslationProvider;
+
+    // How long (in milliseconds) a mutation can run for before it fails
+    mutationTimeout: number;
+
+    // Loads resources that are gone to (eg. "chapter2/Some title") but haven't been registered
+    resourceLoader: ResourceLoader;
+
+    // Where to find the audio clip for each line
+    voiceAssets: VoiceAssets;
+
+    // The most entries to keep in the history (null for no limit)
+    historyLimit: number;
+
+    // Include responses whose conditions fail (with isAllowed set to false) instead of leaving them out
+    includeDisabledResponses: boolean;
+
+    // Properties that aren't on any game state (when not strict)
+    protected _internalState: any = {};
+    private conversation: Conversation = createConversation();
+    private runningConversations: Array<Conversation> = [];
+    // The conversation that is stepping through lines right now (for built in functions)
+    private steppingConversation: Conversation = null;
+    private listeners: Record<string, Array<RegisteredListener>> = {};
+    private missingTranslations: Array<MissingTranslation> = [];
+    private builtins: Record<string, BuiltinFunction> = { ...DEFAULT_BUILTINS };
+    private skipController: AbortController = new AbortController();
+    // Visits and chosen responses for each resource (and every line and choice that has been shown)
+    private tracking = new Map<DialogueResource, LineTracking>();
+    private history: Array<HistoryEntry> = [];
+    // Everything random (alternatives, weighted lines and the random function) comes from here
+    private rng: SeededRandom;
+    // The line (and resource) that expressions and mutations are currently being run for
+    private activeLine: DialogueLine = null;
+    private activeResource: DialogueResource = null;
+    // The line (which might be a response) and expression that any errors should point to
+    private activeLineId: string = null;
+    private activeExpression: () => string = null;
+    private warnings: Array<DialogueError> = [];
+    // Hashes of resources (forgotten when a resource is reloaded)
+    private resourceIds = new WeakMap<DialogueResource, string>();
+    // Resources that have been reloaded and the versions that replaced them
+    private reloadedResources = new WeakMap<DialogueResource, DialogueResource>();
+    // What compiled expressions use to get at the game states
+    private runtime: ExpressionRuntime = {
+        getValue: (path, typeHint) => this.getStatePathValue(path, typeHint),
+        call: (name, args) => this.callStateFunction(name, args),
+        apply: (operator, lhs, rhs) => this.applyOperator(operator, lhs, rhs)
+    };
+    private resources: Record<string, DialogueResource> = {};
+    private loadingResources: Record<string, Promise<DialogueResource>> = {};
+
+    constructor(options: DialogueManagerOptions<TState> = {}) {
+        this.isStrict = options.isStrict ?? true;
+        this.diagnostics = typeof options.diagnostics === "string"
+            ? Object.keys(DEFAULT_DIAGNOSTICS).reduce((policies, category) => ({ ...policies, [category]: options.diagnostics }), {})
+            : { ...options.diagnostics };
+        this.defaultResource = options.defaultResource ?? null;
+        this.gameStates = options.gameStates ?? [];
+        this.locale = options.locale ?? null;
+        this.translations = options.translations ?? null;
+        this.mutationTimeout = options.mutationTimeout ?? null;
+        this.resourceLoader = options.resourceLoader ?? null;
+        this.voiceAssets = options.voiceAssets ?? null;
+        this.historyLimit = options.historyLimit ?? null;
+        this.includeDisabledResponses = options.includeDisabledResponses ?? false;
+        this.rng = new SeededRandom(options.seed);
+
+        for (const name of Object.keys(options.resources ?? {})) {
+            this.registerResource(name, options.resources[name]);
+        }
+    }
+
+    /**
+     * Add a resource that other resources can go to (eg. "=> chapter2/Some title")
+     * @param name The name of the resource (it can't contain "/")
+     * @param resource The dialogue resource
+     * @returns Any titles that are now in more than one resource
+     */
+    public registerResource(name: string, resource: DialogueResource): Array<TitleCollision> {
+        if (name == null || name === "" || name.indexOf("/") > -1) throw new Error("'" + name + "' is not a valid resource name");
+
+        this.resources[name] = resource;
+        return this.getTitleCollisions().filter(collision => collision.resources.indexOf(name) > -1);
+    }
+
+    /**
+     * Remove a resource that is no longer needed
+     * @param name The name of the resource
+     */
+    public unregisterResource(name: string): void {
+        const resource = this.resources[name];
+        if (resource == null) return;
+        if (this.runningConversations.some(conversation => conversation.resource === resource)) {
+            throw new Error("Can't unregister '" + name + "' while a conversation is using it");
+        }
+
+        delete this.resources[name];
+    }
+
+    /**
+     * Get a registered resource, loading it if it hasn't been yet
+     * @param name The name of the resource
+     * @returns The dialogue resource
+     */
+    public async loadResource(name: string): Promise<DialogueResource> {
+        if (this.resources[name] != null) return this.resources[name];
+        if (this.resourceLoader == null) throw new Error("There is no resource called '" + name + "'");
+
+        // Only load each resource once even if it is asked for again while loading
+        if (this.loadingResources[name] == null) {
+            this.loadingResources[name] = Promise.resolve(this.resourceLoader(name)).then(resource => {
+                delete this.loadingResources[name];
+                if (resource == null) throw new Error("There is no resource called '" + name + "'");
+                this.registerResource(name, resource);
+                this.notify("resource_loaded", { name, resource });
+                return resource;
+            }, error => {
+                delete this.loadingResources[name];
+                throw error;
+            });
+        }
+        return this.loadingResources[name];
+    }
+
+    /**
+     * Get a registered resource
+     * @param name The name of the resource
+     * @returns The dialogue resource or null if it hasn't been registered (or loaded)
+     */
+    public getResource(name: string): DialogueResource {
+        return this.resources[name] ?? null;
+    }
+
+    /**
+     * Get the name a resource was registered with
+     * @param resource A dialogue resource
+     * @returns The name or null if it isn't registered
+     */
+    public getResourceName(resource: DialogueResource): string {
+        return Object.keys(this.resources).find(name => this.resources[name] === resource) ?? null;
+    }
+
+    /**
+     * Get the name of the resource that the current line belongs to
+     * @returns The name or null if there is no current line (or its resource isn't registered)
+     */
+    public getCurrentResourceName(): string {
+        return this.conversation.resource != null ? this.getResourceName(this.conversation.resource) : null;
+    }
+
+    /**
+     * Find any titles that are in more than one registered resource. Going to one of
+     * these without naming its resource is an error
+     * @returns A list of titles and the resources they are in
+     */
+    public getTitleCollisions(): Array<TitleCollision> {
+        const owners: Record<string, Array<string>> = {};
+        for (const name of Object.keys(this.resources)) {
+            for (const title of Object.keys(this.resources[name].titles)) {
+                owners[title] = owners[title] ?? [];
+                owners[title].push(name);
+            }
+        }
+
+        return Object.keys(owners)
+            .filter(title => owners[title].length > 1)
+            .map(title => ({ title, resources: owners[title] }));
+    }
+
+    /**
+     * Set the locale to show dialogue in
+     * @param locale A locale (or null to use the original text)
+     * @param translations A translation provider to use instead of the current one
+     */
+    public setLocale(locale: string, translations: TranslationProvider = null): void {
+        this.locale = locale;
+        if (translations != null) {
+            this.translations = translations;
+        }
+    }
+
+    /**
+     * Get every line that was shown in its original text because it had no translation
+     * @returns A list of missing translations
+     */
+    public getMissingTranslations(): Array<MissingTranslation> {
+        return this.missingTranslations.slice();
+    }
+
+    /**
+     * Get the text of a dialogue or response line in the current locale
+     * @param key A line key
+     * @param data The line
+     * @param localResource The resource the line is in
+     * @returns The translated text or the original text if there is no translation
+     */
+    protected getTranslatedText(key: string, data: LineData, localResource: DialogueResource = null): string {
+        if (this.locale == null || this.translations == null || data.text == null) return data.text;
+
+        // Line IDs are only unique within a resource so registered resources are translated by name as well
+        const name = localResource != null ? this.getResourceName(localResource) : null;
+        const lineId = name != null ? name + "/" + key : key;
+
+        const translation = this.translations(this.locale, lineId, data.text);
+        if (translation != null && translation !== "") return translation;
+
+        // Fall back to the original text
+        const isKnown = this.missingTranslations.some(m => m.locale === this.locale && m.lineId === lineId);
+        if (!isKnown) {
+            const missing = { locale: this.locale, lineId, text: data.text };
+            this.missingTranslations.push(missing);
+            this.notify("translation_missing", missing);
+        }
+        return data.text;
+    }
+
+    /**
+     * Start the random sequence again so that the same choices give the same conversation
+     * @param seed Any whole number
+     */
+    public setSeed(seed: number): void {
+        this.rng.reset(seed);
+    }
+
+    /**
+     * Get the seed that the random sequence started from
+     * @returns The seed
+     */
+    public getSeed(): number {
+        return this.rng.seed;
+    }
+
+    /**
+     * Get the next number in the random sequence
+     * @returns A number between 0 (inclusive) and 1 (exclusive)
+     */
+    public random(): number {
+        return this.rng.next();
+    }
+
+    /**
+     * Get the audio clip for a line
+     * @param line A line or response
+     * @returns The clip (the suggested filename from the voice manifest if there are no voice assets) or null
+     */
+    public getVoiceAsset(line: DialogueLine | DialogueResponse): string {
+        return findVoiceAsset(line, this.voiceAssets);
+    }
+
+    /**
+     * Add a listener for a dialogue event
+     * @param type An event type (eg. "started", "line", "mutation_finished") or "*" for every event
+     * @param fn 
+     * @param options Whether to only listen once and whether to wait for async listeners (only for events that happen while stepping)
+     */
+    public addListener<K extends AwaitableEventType>(type: K, fn: DialogueListener<K>, options?: ListenerOptions): void;
+    public addListener<K extends DialogueEventType>(type: K, fn: DialogueListener<K>, options?: UnwaitedListenerOptions): void;
+    public addListener(type: "*", fn: DialogueWildcardListener, options?: ListenerOptions): void;
+    public addListener(type: string, fn: Function, options: ListenerOptions = {}): void {
+        if (options.wait && type != "*" && AWAITABLE_EVENTS.indexOf(type) == -1) {
+            throw new Error("'" + type + "' listeners can't be waited on");
+        }
+        this.listeners[type] = this.listeners[type] ?? [];
+        this.listeners[type].push({ fn, once: options.once ?? false, wait: options.wait ?? false });
+    }
+
+    /**
+     * Add a listener that is removed after it is called
+     * @param type An event type or "*" for every event
+     * @param fn 
+     * @param options Whether to wait for async listeners
+     */
+    public once<K extends AwaitableEventType>(type: K, fn: DialogueListener<K>, options?: ListenerOptions): void;
+    public once<K extends DialogueEventType>(type: K, fn: DialogueListener<K>, options?: UnwaitedListenerOptions): void;
+    public once(type: "*", fn: DialogueWildcardListener, options?: ListenerOptions): void;
+    public once(type: any, fn: any, options: ListenerOptions = {}): void {
+        this.addListener(type, fn, { ...options, once: true });
+    }
+
+    /**
+     * Remove a listener
+     * @param type An event type or "*"
+     * @param fn 
+     */
+    public removeListener<K extends DialogueEventType>(type: K, fn: DialogueListener<K>): void;
+    public removeListener(type: "*", fn: DialogueWildcardListener): void;
+    public removeListener(type: string, fn: Function): void {
+        if (!this.listeners[type]) return;
+        this.listeners[type] = this.listeners[type].filter(l => l.fn !== fn);
+    }
+
+    /**
+     * Call any listeners for an event
+     * @param type The event type
+     * @param payload The event details
+     * @returns A promise that resolves once any listeners that asked to be waited on have finished
+     */
+    protected emit<K extends DialogueEventType>(type: K, payload: DialogueEvents[K]): Promise<void> {
+        const waiting: Array<Promise<void>> = [];
+
+        const call = (key: string, args: Array<any>) => {
+            // Most events have nothing listening for them
+            if (this.listeners[key] == null || this.listeners[key].length == 0) return;
+            for (const listener of this.listeners[key].slice()) {
+                if (listener.once) {
+                    this.listeners[key] = this.listeners[key].filter(l => l !== listener);
+                }
+                const result = listener.fn(...args);
+                if (result != null && typeof result.then === "function") {
+                    if (listener.wait) {
+                        waiting.push(result);
+                    } else {
+                        result.then(null, error => this.handleListenerError(type, error));
+                    }
+                }
+            }
+        }
+        call(type, [payload]);
+        call("*", [type, payload]);
+
+        return waiting.length > 0 ? Promise.all(waiting).then(() => {}) : Promise.resolve();
+    }
+
+    /**
+     * Call any listeners for an event that the conversation doesn't wait on
+     * @param type The event type
+     * @param payload The event details
+     */
+    protected notify<K extends DialogueEventType>(type: K, payload: DialogueEvents[K]): void {
+        try {
+            this.emit(type, payload).then(null, error => this.handleListenerError(type, error));
+        } catch (error) {
+            this.handleListenerError(type, error);
+        }
+    }
+
+    /**
+     * Pass on a failed listener that nothing was waiting for (so that it isn't an unhandled rejection)
+     * @param type The event the listener was for
+     * @param error Why it failed
+     */
+    private handleListenerError(type: DialogueEventType, error: any): void {
+        // There is nowhere left to send a failed error listener
+        if (type != "error") this.notify("error", { error });
+    }
+
+    /**
+     * Pass an error that happened outside of a conversation (eg. a watched file that couldn't be reloaded) to any "error" listeners
+     * @param error The error
+     */
+    public reportError(error: Error): void {
+        this.notify("error", { error });
+    }
+
+    /**
+     * Start a conversation that keeps track of its own position
+     * @param title The title (or line key) to start from
+     * @param overrideResource A local dialogue resource to use instead of the default one
+     * @returns A session that can be stepped through or iterated over
+     */
+    public startConversation(title: string, overrideResource: DialogueResource = null, signal: AbortSignal = null): DialogueSession {
+        // The resource is looked up again for each step in case it has been reloaded since
+        this.getLocalResource(overrideResource);
+        // Sessions keep track of their own position so that they can run alongside each other
+        const conversation = createConversation();
+        // Once a session's conversation has ended (eg. the manager interrupted it) it can't be picked up again
+        const hasEnded = () => conversation.abortController?.signal.aborted ?? false;
+        const session = new DialogueSession(title, {
+            next: (key, signal) => hasEnded() ? Promise.resolve(null) : this.stepConversation(conversation, key, this.getLocalResource(overrideResource), signal),
+            choose: (response, signal) => hasEnded() ? Promise.resolve(null) : this.chooseInConversation(conversation, response, this.getLocalResource(overrideResource), signal),
+            interrupt: () => this.interruptConversation(conversation)
+        }, signal);
+
+        // A reload either moves the session to the equivalent line or finishes it
+        conversation.onReload = () => {
+            const line = this.getConversationLine(conversation, this.getLocalResource(overrideResource));
+            if (line != null) {
+                session.current = line;
+            } else {
+                session.interrupt();
+            }
+        };
+
+        return session;
+    }
+
+    /**
+     * Step through lines and run any mutations until we either 
+     * hit some dialogue or the end of the conversation.
+     * @param key The key of the entry point into the dialogue
+     * @param overrideResource A local dialogue resource to use instead of the default one
+     * @param signal Stops the conversation (as if interrupt was called) when aborted
+     * @returns The first line of dialogue that is printable (or null if the conversation finished)
+     */
+    public async getNextDialogueLine(key: string, overrideResource: DialogueResource = null, signal: AbortSignal = null): Promise<DialogueLine> {
+        return this.stepConversation(this.conversation, key, this.getLocalResource(overrideResource), signal);
+    }
+
+    /**
+     * Step a conversation through to its next printable line
+     * @param conversation The conversation
+     * @param key The key of the entry point into the dialogue
+     * @param localResource The dialogue resource to use
+     * @param signal Stops the conversation when aborted
+     * @returns The first line of dialogue that is printable (or null if the conversation finished)
+     */
+    private async stepConversation(conversation: Conversation, key: string, localResource: DialogueResource, signal: AbortSignal): Promise<DialogueLine> {
+        if (signal?.aborted) {
+            this.finishConversation(conversation, localResource);
+            return null;
+        }
+
+        const interrupt = () => this.interruptConversation(conversation);
+        signal?.addEventListener("abort", interrupt);
+
+        let dialogue: DialogueLine;
+        try {
+            conversation.isStepping = true;
+            dialogue = await this.stepToNextDialogueLine(conversation, key, localResource);
+
+            if (dialogue != null) {
+                await this.emit("line", { line: dialogue });
+                if (dialogue.responses.length > 0) {
+                    await this.emit("responses_presented", { line: dialogue, responses: dialogue.responses });
+                }
+            }
+
+            // The conversation might have been interrupted by a listener
+            if (dialogue != null && this.isInterrupted(conversation)) {
+                this.finishConversation(conversation, localResource);
+                dialogue = null;
+            }
+        } catch (error) {
+            // Carrying on would only run the line that failed again
+            this.finishConversation(conversation, localResource);
+            await this.emit("error", { error });
+            throw error;
+        } finally {
+            conversation.isStepping = false;
+            signal?.removeEventListener("abort", interrupt);
+        }
+
+        return dialogue;
+    }
+
+    /**
+     * Stop any running conversations (including sessions). If one is in the middle of
+     * running mutations then it stops once the current one has finished
+     */
+    public interrupt(): void {
+        this.runningConversations.slice().forEach(conversation => this.interruptConversation(conversation));
+    }
+
+    /**
+     * Stop a conversation
+     * @param conversation The conversation
+     */
+    private interruptConversation(conversation: Conversation): void {
+        if (!conversation.isRunning) return;
+
+        conversation.abortController?.abort();
+        // If nothing is running then the conversation can finish straight away
+        if (!conversation.isStepping) {
+            this.finishConversation(conversation, conversation.resource);
+        }
+    }
+
+    /**
+     * Skip any waits that are currently running
+     */
+    public fastForward(): void {
+        this.skipController.abort();
+        this.skipController = new AbortController();
+    }
+
+    /**
+     * Choose a response and get the next printable line after it
+     * @param response One of the responses from the current line
+     * @param overrideResource A local dialogue resource to use instead of the default one
+     * @param signal Stops the conversation (as if interrupt was called) when aborted
+     * @returns The next printable line
+     */
+    public async chooseResponse(response: DialogueResponse, overrideResource: DialogueResource = null, signal: AbortSignal = null): Promise<DialogueLine> {
+        return this.chooseInConversation(this.conversation, response, overrideResource, signal);
+    }
+
+    /**
+     * Choose a response in a conversation
+     * @param conversation The conversation
+     * @param response One of the responses from the conversation's current line
+     * @param overrideResource A local dialogue resource to use instead of the default one
+     * @param signal Stops the conversation when aborted
+     * @returns The next printable line
+     */
+    private async chooseInConversation(conversation: Conversation, response: DialogueResponse, overrideResource: DialogueResource, signal: AbortSignal): Promise<DialogueLine> {
+        if (!response.isAllowed) throw new Error("'" + response.prompt + "' can't be chosen (" + response.reason + ")");
+
+        const target = this.findKey(response.id, overrideResource ?? this.defaultResource);
+        if (target.resource != null) {
+            const chosen = this.getTracking(target.resource).chosen;
+            chosen[target.key] = (chosen[target.key] ?? 0) + 1;
+        }
+        this.addToHistory({ type: "response", lineId: response.id, stableId: response.stableId, text: response.prompt, tags: response.tags });
+
+        await this.emit("response_chosen", { response });
+        return this.stepConversation(conversation, response.nextId, this.getLocalResource(overrideResource), signal);
+    }
+
+    /**
+     * Run through mutations until we get to something printable
+     * @param conversation The conversation that is stepping
+     * @param key The key of the entry point into the dialogue
+     * @param localResource The dialogue resource to use
+     * @returns The first line of dialogue that is printable
+     */
+    private async stepToNextDialogueLine(conversation: Conversation, key: string, localResource: DialogueResource): Promise<DialogueLine> {
+        // Long chains of mutations are stepped through in a loop so that they can't overflow the stack
+        while (true) {
+            this.steppingConversation = conversation;
+            const dialogue = this.getLine(key, localResource)
+            // Gotos can lead into other resources
+            const lineResource = this.activeResource ?? localResource;
+
+            this.setConversationRunning(conversation, true);
+
+            // If our dialogue is nothing then we hit the end
+            if (dialogue == null || !this.isValid(dialogue) || this.isInterrupted(conversation)) {
+                this.finishConversation(conversation, localResource);
+                return null;
+            }
+
+            // The line is in a resource that still needs to be loaded
+            if (dialogue.type == TYPE_GOTO) {
+                await this.loadResource(parseResourceKey(dialogue.nextId).name);
+                key = dialogue.nextId;
+                continue;
+            }
+
+            // Run the mutation if it is one
+            if (dialogue.type == TYPE_MUTATION) {
+                await this.mutate(dialogue.mutation);
+                if (dialogue.nextId != "" && !this.isInterrupted(conversation)) {
+                    key = this.qualifyKey(dialogue.nextId, lineResource, localResource);
+                    continue;
+                } else {
+                    // End the conversation
+                    this.finishConversation(conversation, lineResource);
+                    return null;
+                }
+            }
+
+            this.setCurrentLine(conversation, dialogue, lineResource);
+            this.qualifyLine(dialogue, lineResource, localResource);
+            if (dialogue.type == TYPE_DIALOGUE) {
+                this.addToHistory({ type: "line", lineId: dialogue.id, stableId: dialogue.stableId, character: dialogue.character, text: dialogue.text, tags: dialogue.tags });
+            }
+            return dialogue;
+        }
+    }
+
+    /**
+     * Get the line that was most recently returned from getNextDialogueLine
+     * (or restored from a snapshot) without running anything again
+     * @returns The current line or null if there isn't one
+     */
+    public getCurrentLine(): DialogueLine {
+        return this.getConversationLine(this.conversation, this.defaultResource);
+    }
+
+    /**
+     * Build a conversation's current line from where it is up to
+     * @param conversation The conversation
+     * @param localResource The resource that keys are relative to
+     * @returns The current line or null if there isn't one
+     */
+    private getConversationLine(conversation: Conversation, localResource: DialogueResource): DialogueLine {
+        const { lineId, resource, responseIds, disabledResponseIds } = conversation;
+        if (lineId == null || resource == null) return null;
+
+        const data = resource.lines[lineId];
+        if (!data) return null;
+
+        const line = new DialogueLine(data, lineId);
+        if (data.type == TYPE_DIALOGUE) {
+            this.setDialogueText(line, lineId, data, resource);
+        }
+
+        // Present the same responses that were available at the time
+        line.responses = responseIds
+            .filter(id => resource.lines[id] != null)
+            .map(id => this.createResponse(id, resource.lines[id], resource, disabledResponseIds.indexOf(id) == -1));
+        const allowedResponses = line.responses.filter(response => response.isAllowed);
+        if (data.type != TYPE_RESPONSE && allowedResponses.length == 1) {
+            line.nextId = allowedResponses[0].nextId;
+        }
+
+        return this.qualifyLine(line, resource, localResource);
+    }
+
+    /**
+     * Capture where the conversation is up to so that it can be resumed later
+     * @returns A plain JSON snapshot
+     */
+    public saveState(): DialogueStateSnapshot {
+        const resource = this.conversation.resource ?? this.defaultResource;
+        return {
+            version: SNAPSHOT_VERSION,
+            resourceId: resource ? this.getResourceId(resource) : null,
+            resourceName: resource ? this.getResourceName(resource) : null,
+            lineId: this.conversation.lineId,
+            responseIds: this.conversation.responseIds.slice(),
+            disabledResponseIds: this.conversation.disabledResponseIds.slice(),
+            internalState: JSON.parse(JSON.stringify(this._internalState)),
+            isDialogueRunning: this.conversation.isRunning,
+            tracking: this.saveTracking(),
+            random: this.rng.save(),
+            history: JSON.parse(JSON.stringify(this.history))
+        };
+    }
+
+    /**
+     * Restore a conversation from a snapshot made with saveState
+     * @param snapshot A snapshot
+     * @param overrideResource A local dialogue resource to use instead of the default one
+     */
+    public loadState(snapshot: DialogueStateSnapshot, overrideResource: DialogueResource = null): void {
+        if (snapshot == null || snapshot.version !== SNAPSHOT_VERSION) throw new Error("Unsupported dialogue state snapshot version");
+
+        // Snapshots from a registered resource go back to that resource
+        const localResource = (snapshot.resourceName != null ? this.resources[snapshot.resourceName] : null) ?? overrideResource ?? this.defaultResource;
+        if (snapshot.lineId != null) {
+            if (localResource == null) throw new Error("No dialogue resource provided");
+            if (snapshot.resourceId !== this.getResourceId(localResource)) throw new Error("Snapshot was saved with a different dialogue resource");
+            if (!localResource.lines[snapshot.lineId]) throw new Error("Line '" + snapshot.lineId + "' does not exist in the dialogue resource");
+        }
+
+        this._internalState = JSON.parse(JSON.stringify(snapshot.internalState ?? {}));
+        this.conversation.lineId = snapshot.lineId;
+        this.conversation.responseIds = (snapshot.responseIds ?? []).slice();
+        this.conversation.disabledResponseIds = (snapshot.disabledResponseIds ?? []).slice();
+        this.conversation.resource = localResource;
+        this.loadTracking(snapshot.tracking ?? {}, localResource);
+        this.history = JSON.parse(JSON.stringify(snapshot.history ?? []));
+        if (snapshot.random != null) this.rng.load(snapshot.random);
+        this.setIsDialogueRunning(snapshot.isDialogueRunning);
+    }
+
+    /**
+     * Swap a resource for a new version of it (eg. after it was exported again) and move the
+     * current position to the closest line in the new version
+     * @param newResource The new version of the resource (or the same resource after it was changed in place)
+     * @param oldResource The resource to replace (defaults to the one the current line is in)
+     * @returns What changed and where the current position ended up
+     */
+    public reloadResource(newResource: DialogueResource, oldResource: DialogueResource = null): ResourceReload {
+        oldResource = oldResource ?? this.conversation.resource ?? this.defaultResource;
+        if (oldResource == null) throw new Error("No dialogue resource to reload");
+
+        const reload: ResourceReload = {
+            ...diffResources(oldResource, newResource),
+            previousLineId: null,
+            lineId: null,
+            match: null,
+            title: null,
+            isReset: false
+        };
+
+        // Either version might have been changed in place since it was last run
+        for (const resource of [oldResource, newResource]) {
+            forgetProgram(resource);
+            forgetCompiled(resource);
+            this.resourceIds.delete(resource);
+        }
+
+        // Anything that used the old version now uses the new one
+        if (this.defaultResource === oldResource) this.defaultResource = newResource;
+        for (const name of Object.keys(this.resources)) {
+            if (this.resources[name] === oldResource) this.resources[name] = newResource;
+        }
+        if (newResource !== oldResource) {
+            this.reloadedResources.set(oldResource, newResource);
+            // Reloading an older version again can't go around in circles
+            this.reloadedResources.delete(newResource);
+
+            if (this.tracking.has(oldResource)) {
+                this.tracking.set(newResource, this.tracking.get(oldResource));
+                this.tracking.delete(oldResource);
+            }
+        }
+
+        // Move the manager's own conversation and any sessions to the equivalent lines (the
+        // reload describes the first one that was moved, starting with the manager's own)
+        const conversations = [this.conversation].concat(this.runningConversations.filter(running => running !== this.conversation));
+        let hasMoved = false;
+        for (const conversation of conversations) {
+            if (conversation.resource !== oldResource) continue;
+            conversation.resource = newResource;
+            if (conversation.lineId == null) continue;
+
+            const match = findEquivalentLine(oldResource, newResource, conversation.lineId);
+            if (!hasMoved) {
+                hasMoved = true;
+                reload.previousLineId = conversation.lineId;
+                reload.lineId = match.lineId;
+                reload.match = match.match;
+                reload.title = match.title;
+                reload.isReset = match.lineId == null;
+            }
+
+            if (match.lineId == null) {
+                this.finishConversation(conversation, newResource);
+            } else {
+                conversation.lineId = match.lineId;
+                this.setCurrentResponses(conversation, this.getPresentedResponses(match.lineId, newResource));
+            }
+            conversation.onReload?.();
+        }
+
+        this.notify("resource_reloaded", { resource: newResource, reload, line: this.getCurrentLine() });
+
+        return reload;
+    }
+
+    /**
+     * Get the responses that a line would show
+     * @param key A line key
+     * @param localResource The resource the line is in
+     * @returns Any responses that pass their conditions
+     */
+    private getPresentedResponses(key: string, localResource: DialogueResource): Array<DialogueResponse> {
+        const data = localResource.lines[key];
+        if (data.type == TYPE_RESPONSE) return this.getResponses(data.responses, localResource);
+
+        const nextLine = localResource.lines[data.next_id];
+        if (nextLine != null && nextLine.type == TYPE_RESPONSE) return this.getResponses(nextLine.responses, localResource);
+
+        return [];
+    }
+
+    /**
+     * Keep track of the current line so that it can be saved
+     * @param conversation The conversation the line is in
+     * @param line The line that was just returned (or null at the end)
+     * @param localResource The resource the line belongs to
+     */
+    private setCurrentLine(conversation: Conversation, line: DialogueLine, localResource: DialogueResource): void {
+        conversation.lineId = line ? line.id : null;
+        this.setCurrentResponses(conversation, line ? line.responses : []);
+        conversation.resource = localResource;
+    }
+
+    /**
+     * Keep track of which responses were presented (and which of them weren't allowed)
+     * @param conversation The conversation the responses are in
+     * @param responses The responses
+     */
+    private setCurrentResponses(conversation: Conversation, responses: Array<DialogueResponse>): void {
+        conversation.responseIds = responses.map(response => response.id);
+        conversation.disabledResponseIds = responses.filter(response => !response.isAllowed).map(response => response.id);
+    }
+
+    /**
+     * Get a value that identifies a dialogue resource
+     * @param resource A dialogue resource
+     * @returns A hash of the resource's contents
+     */
+    private getResourceId(resource: DialogueResource): string {
+        if (!this.resourceIds.has(resource)) {
+            this.resourceIds.set(resource, hashText(JSON.stringify(resource)));
+        }
+        return this.resourceIds.get(resource);
+    }
+
+    /**
+     * End a conversation
+     * @param conversation The conversation
+     * @param localResource The dialogue resource that was being used
+     */
+    private finishConversation(conversation: Conversation, localResource: DialogueResource): void {
+        this.setCurrentLine(conversation, null, localResource);
+        this.setConversationRunning(conversation, false);
+    }
+
+    /**
+     * Check if a running conversation has been told to stop
+     * @param conversation The conversation
+     * @returns True if it has been interrupted since it started
+     */
+    private isInterrupted(conversation: Conversation): boolean {
+        return conversation.isRunning && conversation.abortController?.signal.aborted;
+    }
+
+    /**
+     * Set if the dialogue is currently running
+     * @param value 
+     */
+    setIsDialogueRunning(value: boolean): void {
+        this.setConversationRunning(this.conversation, value);
+    }
+
+    /**
+     * Set if a conversation is currently running
+     * @param conversation The conversation
+     * @param value Whether it is running
+     */
+    private setConversationRunning(conversation: Conversation, value: boolean): void {
+        const hasChanged = value !== conversation.isRunning;
+        conversation.isRunning = value;
+        if (hasChanged) {
+            // Let anything still running (like a wait) know that the conversation is over
+            if (value) {
+                conversation.abortController = new AbortController();
+                this.runningConversations.push(conversation);
+            } else {
+                conversation.abortController?.abort();
+                this.runningConversations = this.runningConversations.filter(running => running !== conversation);
+            }
+            this.notify(value ? "started" : "finished", {});
+        }
+    }
+
+    /**
+     * Add a function that dialogue can call before looking on the game states
+     * @param name The name of the function
+     * @param fn The function (it is given a context and then any arguments)
+     */
+    public registerBuiltin(name: string, fn: BuiltinFunction): void {
+        this.builtins[name] = fn;
+    }
+
+    /**
+     * Remove a built in function
+     * @param name The name of the function
+     */
+    public unregisterBuiltin(name: string): void {
+        delete this.builtins[name];
+    }
+
+    /**
+     * Get how many times a line has been stepped through
+     * @param key A title or line key
+     * @param overrideResource A local dialogue resource to use instead of the default one
+     * @returns The number of visits
+     */
+    public getVisitCount(key: string, overrideResource: DialogueResource = null): number {
+        const target = this.findKey(key, overrideResource ?? this.defaultResource);
+        if (target.resource == null) return 0;
+        return this.tracking.get(target.resource)?.visits[target.resource.titles[target.key] ?? target.key] ?? 0;
+    }
+
+    /**
+     * Get how many times a response has been chosen
+     * @param responseOrKey A response or its line key
+     * @param overrideResource A local dialogue resource to use instead of the default one
+     * @returns The number of times it was chosen
+     */
+    public getChosenCount(responseOrKey: DialogueResponse | string, overrideResource: DialogueResource = null): number {
+        const key = typeof responseOrKey === "string" ? responseOrKey : responseOrKey.id;
+        const target = this.findKey(key, overrideResource ?? this.defaultResource);
+        if (target.resource == null) return 0;
+        return this.tracking.get(target.resource)?.chosen[target.key] ?? 0;
+    }
+
+    /**
+     * Get every line that has been shown and every response that has been chosen (eg. for a backlog)
+     * @returns A list of history entries, oldest first
+     */
+    public getHistory(): Array<HistoryEntry> {
+        return this.history.slice();
+    }
+
+    /**
+     * Forget every visit, chosen response and history entry
+     */
+    public clearHistory(): void {
+        this.tracking.clear();
+        this.history = [];
+    }
+
+    /**
+     * Get the errors that were kept as warnings because of the diagnostics policy
+     * @param category Only get warnings of this kind
+     * @returns A list of errors
+     */
+    public getDiagnostics(category: DialogueErrorCategory = null): Array<DialogueError> {
+        return this.warnings.filter(error => category == null || error.category == category);
+    }
+
+    /**
+     * Forget every warning
+     */
+    public clearDiagnostics(): void {
+        this.warnings = [];
+    }
+
+    /**
+     * Work out what to do with a kind of error
+     * @param category The kind of error
+     * @returns Whether to throw, warn or ignore
+     */
+    private getDiagnosticAction(category: DialogueErrorCategory): DiagnosticAction {
+        if (this.diagnostics[category] != null) return this.diagnostics[category];
+        if (!this.isStrict && (category == "missing_property" || category == "missing_function" || category == "bad_markup")) return "ignore";
+        return DEFAULT_DIAGNOSTICS[category];
+    }
+
+    /**
+     * Throw, keep or ignore an error depending on the diagnostics policy for its kind
+     * @param error The error
+     */
+    private report(error: DialogueError): void {
+        switch (this.getDiagnosticAction(error.category)) {
+            case "throw":
+                throw error;
+            case "warn":
+                this.warnings.push(error);
+                this.notify("diagnostic", { error });
+                break;
+        }
+    }
+
+    /**
+     * Describe where the dialogue is up to for an error
+     * @returns The current line, its title and character, and the expression being run
+     */
+    private getErrorContext(): DialogueErrorContext {
+        const resource = this.activeResource ?? this.defaultResource;
+        const data = this.activeLineId != null ? resource?.lines[this.activeLineId] : null;
+        return {
+            lineId: this.activeLineId,
+            title: data != null ? getProgram(resource).titles[this.activeLineId] : null,
+            character: data?.character,
+            expression: this.activeExpression?.()
+        };
+    }
+
+    /**
+     * Compile part of a line, reporting it if it wasn't exported properly (or changes something that can't be a property)
+     * @param kind What is being compiled (eg. "condition")
+     * @param compile Compiles it
+     * @returns The compiled expression or null if it couldn't be compiled
+     */
+    private compileOrReport<T>(kind: string, compile: () => T): T {
+        try {
+            return compile();
+        } catch (error) {
+            if (error instanceof MissingPropertyError) {
+                this.report(new MissingPropertyError(error.property, this.getErrorContext()));
+                return null;
+            }
+            if (!(error instanceof BadExportError)) throw error;
+            this.report(new BadExportError(kind, this.getErrorContext()));
+            return null;
+        }
+    }
+
+    /**
+     * Get the visits and chosen responses for a resource
+     * @param resource A dialogue resource
+     * @returns The tracking for that resource
+     */
+    private getTracking(resource: DialogueResource): LineTracking {
+        if (!this.tracking.has(resource)) {
+            this.tracking.set(resource, { visits: {}, chosen: {} });
+        }
+        return this.tracking.get(resource);
+    }
+
+    /**
+     * Add a line or choice to the history
+     * @param entry The history entry
+     */
+    private addToHistory(entry: HistoryEntry): void {
+        this.history.push(entry);
+        if (this.historyLimit != null && this.history.length > this.historyLimit) {
+            this.history.splice(0, this.history.length - this.historyLimit);
+        }
+    }
+
+    /**
+     * Copy the tracking for every resource so that it can be saved
+     * @returns The tracking keyed by resource name (or the resource's ID if it isn't registered)
+     */
+    private saveTracking(): Record<string, LineTracking> {
+        const saved: Record<string, LineTracking> = {};
+        this.tracking.forEach((tracking, resource) => {
+            saved[this.getResourceName(resource) ?? this.getResourceId(resource)] = JSON.parse(JSON.stringify(tracking));
+        });
+        return saved;
+    }
+
+    /**
+     * Restore the tracking from a snapshot
+     * @param saved The tracking keyed by resource name or ID
+     * @param localResource The resource being restored
+     */
+    private loadTracking(saved: Record<string, LineTracking>, localResource: DialogueResource): void {
+        const candidates = [localResource, this.defaultResource]
+            .concat(Object.keys(this.resources).map(name => this.resources[name]))
+            .filter(resource => resource != null);
+
+        this.tracking.clear();
+        for (const key of Object.keys(saved)) {
+            const resource = this.resources[key] ?? candidates.find(candidate => this.getResourceId(candidate) === key);
+            if (resource != null) {
+                this.tracking.set(resource, JSON.parse(JSON.stringify(saved[key])));
+            }
+        }
+    }
+
+    /**
+     * Get a line by its key
+     * @param key A line key
+     * @param localResource A local dialogue resource to use instead of the default one.
+     * @returns The first line that passes any conditions
+     */
+    protected getLine(key: string, localResource: DialogueResource = null): DialogueLine {
+        // Conditions and gotos are followed in a loop (instead of recursively) so that long chains of them can't overflow the stack
+        let entry: ProgramLine;
+        while (true) {
+            // The key might be in another resource (titles are already looked up in the program)
+            const target = this.findKey(key, localResource);
+            entry = target.resource != null ? getProgram(target.resource).entries[target.key] : null;
+            if (entry == null) return this.getMissingLine(key, localResource);
+
+            localResource = target.resource;
+            key = entry.id;
+            const data = entry.data;
+
+            this.enterLine(key, localResource);
+
+            this.activeResource = localResource;
+            this.activeLine = data.type == TYPE_CONDITION ? new DialogueLine(data, key) : null;
+            this.activeLineId = key;
+
+            // Check condtiions
+            if (data.type == TYPE_CONDITION) {
+                // "else" will have no actual condition
+                key = data.condition == null || this.check(data.condition) ? entry.nextId : entry.nextConditionalId;
+                continue;
+            }
+
+            // Evaluate early exits
+            if (data.type == TYPE_GOTO) {
+                this.notify("goto", { from: key, to: data.next_id });
+                key = entry.nextId;
+                continue;
+            }
+
+            break;
+        }
+
+        const data = entry.data;
+
+        // Set up a line object
+        const line = new DialogueLine(data, key);
+        this.activeLine = line;
+
+        // Only responses
+        if (data.type == TYPE_RESPONSE) {
+            line.responses = this.getResponses(data.responses, localResource);
+            return line;
+        }
+
+        // Replace any variables in the dialogue text
+        if (data.type == TYPE_DIALOGUE) {
+            this.setDialogueText(line, key, data, localResource);
+        }
+
+        // Inject the next node's responses if they have any
+        const nextLine = localResource.lines[line.nextId];
+        if (nextLine != null && nextLine.type == TYPE_RESPONSE) {
+            line.responses = this.getResponses(nextLine.responses, localResource);
+            // If there is only one response that can be chosen then it has to point to the next node
+            const allowedResponses = line.responses.filter(response => response.isAllowed);
+            if (allowedResponses.length == 1) {
+                line.nextId = allowedResponses[0].nextId;
+            }
+        } else {
+            line.responses = [];
+        }
+
+        return line;
+    }
+
+    /**
+     * Keep track of a line being stepped through (including conditions and gotos)
+     * @param key The line key
+     * @param localResource The resource the line is in
+     */
+    protected enterLine(key: string, localResource: DialogueResource): void {
+        // Only lines that are shown are counted (and the start of each title so that titles are too)
+        const entry = getProgram(localResource).entries[key];
+        if (entry.data.type != TYPE_DIALOGUE && entry.data.type != TYPE_RESPONSE && !entry.isTitleStart) return;
+
+        const visits = this.getTracking(localResource).visits;
+        visits[key] = (visits[key] ?? 0) + 1;
+    }
+
+    /**
+     * Work out what to do when a key doesn't point to a line
+     * @param key A title or line key
+     * @param localResource The resource it was looked for in
+     * @returns A goto to follow once the key's resource has loaded (or null if it is the end of the conversation)
+     */
+    protected getMissingLine(key: string, localResource: DialogueResource): DialogueLine {
+        // Continue once the resource has loaded
+        if (this.canLoadResource(key, localResource)) {
+            return new DialogueLine({ type: TYPE_GOTO, next_id: key }, key);
+        }
+        // End of conversation probably
+        return null;
+    }
+
+    /**
+     * Work out which resource a key belongs to
+     * @param key A title or line key (eg. "Some title" or "chapter2/Some title")
+     * @param localResource The resource to look in first
+     * @returns The resource and the key inside it
+     */
+    private findKey(key: string, localResource: DialogueResource): { key: string, resource: DialogueResource } {
+        if (localResource != null && (localResource.titles[key] != null || localResource.lines[key] != null)) {
+            return { key, resource: localResource };
+        }
+
+        const reference = parseResourceKey(key);
+        if (reference != null && this.resources[reference.name] != null) {
+            return { key: reference.key, resource: this.resources[reference.name] };
+        }
+
+        // Titles that aren't local can be found in any other registered resource
+        const owners = Object.keys(this.resources).filter(name => this.resources[name].titles[key] != null);
+        if (owners.length > 1) {
+            throw new Error("Title '" + key + "' is in more than one resource ('" + owners.join("', '") + "')");
+        } else if (owners.length == 1) {
+            return { key, resource: this.resources[owners[0]] };
+        }
+
+        return { key, resource: localResource };
+    }
+
+    /**
+     * Check if a key points into a resource that can still be loaded
+     * @param key A title or line key
+     * @param localResource The resource to look in first
+     * @returns True if the resource loader should be used
+     */
+    private canLoadResource(key: string, localResource: DialogueResource): boolean {
+        const reference = parseResourceKey(key);
+        if (reference == null || this.resourceLoader == null || this.resources[reference.name] != null) return false;
+        return localResource == null || (localResource.titles[key] == null && localResource.lines[key] == null);
+    }
+
+    /**
+     * Point a key at the resource it belongs to if it isn't in the local resource
+     * @param key A line key from the resource
+     * @param resource The resource the key is from
+     * @param localResource The resource that the conversation is being run with
+     * @returns The key, prefixed with the name of its resource if it needs to be
+     */
+    private qualifyKey(key: string, resource: DialogueResource, localResource: DialogueResource): string {
+        if (resource === localResource || key == null || resource.lines[key] == null) return key;
+        const name = this.getResourceName(resource);
+        return name != null ? name + "/" + key : key;
+    }
+
+    /**
+     * Point the keys of a line (and its responses) at the resource they belong to
+     * @param line A line from the resource
+     * @param resource The resource the line is from
+     * @param localResource The resource that the conversation is being run with
+     * @returns The line
+     */
+    private qualifyLine(line: DialogueLine, resource: DialogueResource, localResource: DialogueResource): DialogueLine {
+        if (resource === localResource) return line;
+
+        line.id = this.qualifyKey(line.id, resource, localResource);
+        line.nextId = this.qualifyKey(line.nextId, resource, localResource);
+        for (const response of line.responses) {
+            response.id = this.qualifyKey(response.id, resource, localResource);
+            response.nextId = this.qualifyKey(response.nextId, resource, localResource);
+        }
+        return line;
+    }
+
+    /**
+     * Get the resource to run dialogue with
+     * @param overrideResource A local dialogue resource to use instead of the default one
+     * @returns The resource (or null if lines can only come from registered resources)
+     */
+    private getLocalResource(overrideResource: DialogueResource): DialogueResource {
+        let localResource = overrideResource ?? this.defaultResource;
+        // Anything holding on to a resource that has since been reloaded gets the newest version
+        while (this.reloadedResources.has(localResource)) {
+            localResource = this.reloadedResources.get(localResource);
+        }
+        // You have to provide a dialogue resource
+        if (localResource == null && Object.keys(this.resources).length == 0 && this.resourceLoader == null) {
+            throw new Error("No dialogue resource provided");
+        }
+        return localResource;
+    }
+
+    /**
+     * Fill in the dialogue of a line (translated, with replacements and then markup parsed)
+     * @param line The line to update
+     * @param key The line key
+     * @param data The line data
+     * @param localResource The resource the line is in
+     */
+    private setDialogueText(line: DialogueLine, key: string, data: LineData, localResource: DialogueResource): void {
+        let dialogue = this.getTranslatedText(key, data, localResource);
+        this.takeTags(dialogue, line.tags, text => dialogue = text);
+        if (data.replacements) {
+            dialogue = this.getReplacements(dialogue, data.replacements);
+        }
+        line.dialogue = resolveAlternatives(dialogue, () => this.rng.next());
+
+        const markup = parseMarkup(line.dialogue);
+        line.text = markup.text;
+        line.markers = markup.markers;
+        for (const problem of markup.problems) {
+            this.report(new BadMarkupError(problem, this.getErrorContext()));
+        }
+    }
+
+    /**
+     * Check if a condition is met
+     * @param condition A condition object to check against
+     * @returns True if the condition passes (or there was no condition)
+     */
+    check(condition: Condition): boolean {
+        if (!condition) return true;
+
+        const compiled = this.compileOrReport("condition", () => compileCondition(condition));
+        if (compiled == null) return false;
+
+        const previousExpression = this.activeExpression;
+        this.activeExpression = () => stringifyExpression(compiled);
+        let result: boolean;
+        try {
+            result = Boolean(this.evaluate(compiled));
+        } finally {
+            this.activeExpression = previousExpression;
+        }
+        this.notify("condition_evaluated", { condition, result });
+        return result;
+    }
+
+    /**
+     * Make a change to game state or run a method
+     * @param mutation The mutation object to run
+     * @returns A promise of the running mutation
+     */
+    async mutate(mutation: Mutation): Promise<void> {
+        if (!mutation) return;
+
+        const compiled = this.compileOrReport("mutation", () => compileMutation(mutation));
+        if (compiled == null) return;
+
+        const previousExpression = this.activeExpression;
+        this.activeExpression = () => stringifyMutation(mutation);
+        try {
+            await this.runMutation(mutation, compiled);
+        } finally {
+            this.activeExpression = previousExpression;
+        }
+    }
+
+    /**
+     * Run a compiled mutation
+     * @param mutation The mutation object
+     * @param compiled The compiled mutation
+     * @returns A promise of the running mutation
+     */
+    private async runMutation(mutation: Mutation, compiled: CompiledMutation): Promise<void> {
+        // Other conversations might step while this one waits
+        const conversation = this.steppingConversation ?? this.conversation;
+
+        // If lhs is a function then we run it and return because you can't assign to a function
+        if (compiled.call) {
+            const args = compiled.call.args.map(arg => this.evaluate(arg));
+            await this.emit("mutation_started", { mutation, args });
+            await this.withTimeout(this.runMutationFunction(compiled.call.name, args, mutation, conversation), compiled.call.name);
+            await this.emit("mutation_finished", { mutation, args });
+            return;
+        }
+
+        // lhs is a path to a state property
+        const lhs = compiled.path;
+
+        // If there is no operator then we don't do anything
+        if (!compiled.operator) {
+            return;
+        }
+
+        // Evaluate right hand side
+        const rhs = this.evaluate(compiled.value);
+
+        await this.emit("mutation_started", { mutation, args: [rhs] });
+        switch (compiled.operator) {
+            case "=":
+                this.setStatePathValue(lhs, rhs);
+                break;
+            case "+=":
+            case "-=":
+            case "*=":
+            case "/=":
+                const operator = compiled.operator.charAt(0);
+                const value = this.getStatePathValue(lhs, typeof rhs);
+                this.setStatePathValue(lhs, this.applyOperator(operator, value, rhs));
+                break;
+            default:
+                this.report(new BadOperatorError(compiled.operator, this.getErrorContext()));
+        }
+        await this.emit("mutation_finished", { mutation, args: [rhs] });
+    }
+
+    /**
+     * Run a built in function or a method on the game states
+     * @param function_name The name of the function
+     * @param args The resolved arguments
+     * @param mutation The mutation that is calling the function
+     * @param conversation The conversation that the mutation is in
+     * @returns A promise of the running function
+     */
+    private async runMutationFunction(function_name: string, args: Array<any>, mutation: Mutation, conversation: Conversation): Promise<void> {
+        const builtin = this.getBuiltin(function_name);
+        if (builtin != null) {
+            await builtin(this.createBuiltinContext(mutation, conversation), ...args);
+            return;
+        }
+
+        // Methods on nested objects
+        if (function_name.indexOf(".") > -1) {
+            await this.callStateFunction(function_name, args);
+            return;
+        }
+
+        let found = false
+        for (const adapter of this.getStateAdapters()) {
+            if (adapter.has(function_name) && typeof adapter.get(function_name) === "function") {
+                found = true;
+                await adapter.call(function_name, args);
+            }
+        }
+        if (!found) {
+            this.report(new MissingFunctionError(function_name, this.getErrorContext()));
+        }
+    }
+
+    /**
+     * Replace any variables, etc in the dialogue with their state values
+     * @param text The initial text
+     * @param replacements A list of things to replace
+     * @returns The text with replacements replaced
+     */
+    getReplacements(text: string, replacements: Array<Replacement>): string {
+        // Placeholders are matched by their contents because translated text might
+        // have them in a different order (or with different spacing)
+        const normalise = (placeholder: string) => placeholder.replace(/\s+/g, "");
+        const values: Record<string, any> = {};
+        for (const replacement of replacements) {
+            const key = normalise(replacement.value_in_text);
+            if (!(key in values)) {
+                const compiled = this.compileOrReport("replacement", () => compileReplacement(replacement));
+                // Replacements that can't be run are left in the text
+                if (compiled == null) continue;
+
+                const previousExpression = this.activeExpression;
+                this.activeExpression = () => replacement.value_in_text;
+                try {
+                    values[key] = this.evaluate(compiled);
+                } finally {
+                    this.activeExpression = previousExpression;
+                }
+            }
+        }
+
+        return text.replace(/{{.*?}}/g, placeholder => {
+            const key = normalise(placeholder);
+            return key in values ? values[key] : placeholder;
+        });
+    }
+
+
+    /**
+     * Replace an array of line keys with their response prompts
+     * @param keys A list of line keys
+     * @param localResource A local resource to override the default one
+     * @returns A list of DialogueResponses (including ones that aren't allowed if includeDisabledResponses is on)
+     */
+    getResponses(keys: Array<string>, localResource: DialogueResource): Array<DialogueResponse> {
+        const responses: Array<DialogueResponse> = []
+        const previousLineId = this.activeLineId;
+        for (const key of keys) {
+            const data = localResource.lines[key];
+            this.activeLineId = key;
+            const isAllowed = data.condition == null || this.check(data.condition);
+            if (isAllowed || this.includeDisabledResponses) {
+                const response = this.createResponse(key, data, localResource, isAllowed);
+                responses.push(response)
+            }
+        }
+        this.activeLineId = previousLineId;
+
+        return responses
+    }
+
+    /**
+     * Set up a response object
+     * @param key The response's line key
+     * @param data The response line
+     * @param localResource The resource the response is in
+     * @param isAllowed Whether the response's condition passed
+     * @returns A DialogueResponse
+     */
+    private createResponse(key: string, data: LineData, localResource: DialogueResource, isAllowed: boolean = true): DialogueResponse {
+        const response = new DialogueResponse(data, key);
+        response.wasChosen = (this.tracking.get(localResource)?.chosen[key] ?? 0) > 0;
+        response.prompt = this.getTranslatedText(key, data, localResource);
+        this.takeTags(response.prompt, response.tags, prompt => response.prompt = prompt);
+        if (data.replacements) {
+            response.prompt = this.getReplacements(response.prompt, data.replacements);
+        }
+        response.isAllowed = isAllowed;
+        if (!isAllowed) {
+            response.reason = this.getDisabledReason(data.condition, response.tags);
+        }
+        return response;
+    }
+
+    /**
+     * Explain why a response can't be chosen. A "reason" tag (eg. "[#reason=Requires 10 gold]") is
+     * used if there is one, otherwise the condition is described (eg. "Requires gold of at least 10")
+     * @param condition The response's condition
+     * @param tags The response's tags
+     * @returns The reason
+     */
+    private getDisabledReason(condition: Condition, tags: LineTags): string {
+        if (typeof tags.reason === "string") return tags.reason;
+        try {
+            return "Requires " + describeExpression(compileCondition(condition));
+        } catch (error) {
+            // Conditions that weren't exported properly have already been reported
+            return null;
+        }
+    }
+
+    /**
+     * Move any line tags that are still in some text (eg. in exported or translated text) into a tags map
+     * @param text The text
+     * @param tags The tags map to add to
+     * @param setText Called with the text without its tags (only if there were any)
+     */
+    private takeTags(text: string, tags: LineTags, setText: (text: string) => void): void {
+        const tagged = extractTags(text);
+        if (Object.keys(tagged.tags).length == 0) return;
+
+        Object.assign(tags, tagged.tags);
+        setText(tagged.text.trim());
+    }
+    /**
+     * Get a value on the current scene or game state
+     * @param arg A value
+     * @returns The resolved value
+     */
+    getStateValue(arg: any, typeHint: string = "boolean"): any {
+        if (["number", "boolean"].indexOf(typeof arg) > -1) {
+            return arg;
+        }
+
+        // Literals are only parsed once
+        return this.evaluate(compileStateValue(arg), typeHint);
+    }
+
+    /**
+     * Set a value on the current scene or game state
+     * @param property A property name or path (eg. player.inventory.gold)
+     * @param value The new value
+     * @returns 
+     */
+    setStateValue(property: string, value: any): void {
+        this.setStatePathValue(parsePath(property) ?? [property], value);
+    }
+
+    /**
+     * Get a value from the first game state that has it
+     * @param path A list of property names
+     * @param typeHint A hint for default types when using non-strict mode
+     * @returns The value
+     */
+    private getStatePathValue(path: Array<string>, typeHint: string): any {
+        const name = path[0];
+        const adapter = this.findStateAdapter(name);
+        if (adapter != null) {
+            return getPathValue(adapter.get(name), path.slice(1));
+        }
+
+        // Properties that aren't on a game state are kept by the manager (unless in strict mode)
+        if (!this.isStrict && typeof this._internalState[name] !== "undefined") {
+            return getPathValue(this._internalState, path);
+        }
+
+        this.report(new MissingPropertyError(name, this.getErrorContext()));
+        if (path.length > 1) {
+            return undefined;
+        } else {
+            // Guess an initial value based on the type hint
+            switch (typeHint) {
+                case "number":
+                    return 0;
+                case "string":
+                    return "";
+                default:
+                    return false;
+            }
+        }
+    }
+
+    /**
+     * Change a value on the first game state that has it
+     * @param path A list of property names
+     * @param value The new value
+     */
+    private setStatePathValue(path: Array<string>, value: any): void {
+        const property = stringifyPath(path);
+
+        const adapter = this.findStateAdapter(path[0]);
+        if (adapter != null) {
+            const oldValue = getPathValue(adapter.get(path[0]), path.slice(1));
+            // Adapters can refuse to make a change
+            if (adapter.set(path, value) === false) return;
+            this.notify("state_changed", { property, oldValue, newValue: getPathValue(adapter.get(path[0]), path.slice(1)) });
+            return;
+        }
+
+        if (this.isStrict || typeof this._internalState[path[0]] === "undefined") {
+            this.report(new MissingPropertyError(path[0], this.getErrorContext()));
+        }
+        if (this.isStrict) return;
+
+        const oldValue = getPathValue(this._internalState, path);
+        setPathValue(this._internalState, path, value, true);
+        this.notify("state_changed", { property, oldValue, newValue: value });
+    }
+
+    /**
+     * Get the adapters for each game state
+     * @returns A list of adapters
+     */
+    private getStateAdapters(): Array<StateAdapter> {
+        return this.gameStates.map(getStateAdapter);
+    }
+
+    /**
+     * Find the first game state that has a property or method
+     * @param name The name of a property or method
+     * @returns The adapter for that game state or null
+     */
+    private findStateAdapter(name: string): StateAdapter {
+        for (const state of this.gameStates) {
+            const adapter = getStateAdapter(state);
+            if (adapter.has(name)) return adapter;
+        }
+        return null;
+    }
+
+    /**
+     * Get the value of a state function
+     * @param functionName The name of a function
+     * @param args The arguments
+     * @returns The resolved value of running the function
+     */
+    getStateFunctionValue(functionName: string, args: Array<string>): any {
+        return this.callStateFunction(functionName, this.parseArgs(args));
+    }
+
+    /**
+     * Evaluate an array of args from their state values
+     * @param args A list of arguments
+     * @returns A resolved list of those arguments
+     */
+    parseArgs(args: Array<any>): Array<any> {
+        return args.map(arg => this.evaluate(compileValue(arg)));
+    }
+
+    /**
+     * Resolve a tokenised expression
+     * @param tokens A tokenised expression
+     * @param typeHint A hint for default types when using non-strict mode
+     * @returns The final resolved value
+     */
+    resolve(tokens: Array<any>, typeHint: string = "boolean"): any {
+        return this.evaluate(compileValue(tokens), typeHint);
+    }
+
+    /**
+     * Evaluate a compiled expression against the game states
+     * @param node A compiled expression
+     * @param typeHint A hint for default types when using non-strict mode
+     * @returns The final resolved value
+     */
+    evaluate(node: ExpressionNode, typeHint: string = "boolean"): any {
+        return compileEvaluator(node, typeHint)(this.runtime);
+    }
+
+    /**
+     * Apply a binary operator to two resolved values
+     * @param operator The operator (eg. "+" or ">=")
+     * @param lhs The left hand value
+     * @param rhs The right hand value
+     * @returns The result (or undefined if the operator isn't known)
+     */
+    private applyOperator(operator: string, lhs: any, rhs: any): any {
+        this.checkOperandTypes(operator, lhs, rhs);
+        switch (operator) {
+            case "==":
+                return lhs == rhs;
+            case "!=":
+                return lhs != rhs;
+            case ">":
+                return lhs > rhs;
+            case ">=":
+                return lhs >= rhs;
+            case "<":
+                return lhs < rhs;
+            case "<=":
+                return lhs <= rhs;
+            case "in":
+                return this.isIn(lhs, rhs);
+            case "+":
+                return lhs + rhs;
+            case "-":
+                return lhs - rhs;
+            case "*":
+                return lhs * rhs;
+            case "/":
+                return lhs / rhs;
+            case "%":
+                return lhs % rhs;
+        }
+        this.report(new BadOperatorError(operator, this.getErrorContext()));
+        return undefined;
+    }
+
+    /**
+     * Report an operator being used with values that it doesn't make sense for (eg. "gold" > 5)
+     * @param operator The operator
+     * @param lhs The left hand value
+     * @param rhs The right hand value
+     */
+    private checkOperandTypes(operator: string, lhs: any, rhs: any): void {
+        const lhsType = Array.isArray(lhs) ? "list" : lhs === null ? "null" : typeof lhs;
+        const rhsType = Array.isArray(rhs) ? "list" : rhs === null ? "null" : typeof rhs;
+        const areNumbers = lhsType == "number" && rhsType == "number";
+
+        let isValid = true;
+        switch (operator) {
+            case "+":
+                isValid = areNumbers || lhsType == "string" || rhsType == "string";
+                break;
+            case "-":
+            case "*":
+            case "/":
+            case "%":
+                isValid = areNumbers;
+                break;
+            case ">":
+            case ">=":
+            case "<":
+            case "<=":
+                isValid = areNumbers || (lhsType == "string" && rhsType == "string");
+                break;
+            case "in":
+                isValid = rhsType == "string" || rhsType == "list" || rhsType == "object";
+                break;
+        }
+
+        if (!isValid) {
+            this.report(new TypeMismatchError(operator, lhsType, rhsType, this.getErrorContext()));
+        }
+    }
+
+    /**
+     * Run a state function with already resolved arguments
+     * @param functionName The name of a function
+     * @param args The resolved arguments
+     * @returns The value returned from the function
+     */
+    private callStateFunction(functionName: string, args: Array<any>): any {
+        const builtin = this.getBuiltin(functionName);
+        if (builtin != null) {
+            return builtin(this.createBuiltinContext(null), ...args);
+        }
+
+        // Methods on nested objects (eg. player.inventory.count("gold"))
+        const path = parsePath(functionName) ?? [functionName];
+        if (path.length > 1) {
+            const target = this.getStatePathValue(path.slice(0, -1), "object");
+            const method = getPathValue(target, path.slice(-1));
+            if (typeof method === "function") return method.apply(target, args);
+        } else {
+            for (const adapter of this.getStateAdapters()) {
+                if (adapter.has(functionName) && typeof adapter.get(functionName) === "function") {
+                    return adapter.call(functionName, args);
+                }
+            }
+        }
+
+        this.report(new MissingFunctionError(functionName, this.getErrorContext()));
+        return false;
+    }
+
+    /**
+     * Reject if a running mutation takes longer than the mutation timeout
+     * @param running The running mutation
+     * @param functionName The name of the function being run
+     * @returns A promise of the running mutation
+     */
+    private withTimeout(running: Promise<void>, functionName: string): Promise<void> {
+        if (this.mutationTimeout == null) return running;
+
+        let timer: ReturnType<typeof setTimeout>;
+        const timeout = new Promise<void>((_, reject) => {
+            timer = setTimeout(() => reject(new DialogueTimeoutError(functionName, this.mutationTimeout)), this.mutationTimeout);
+        });
+        return Promise.race([running, timeout]).then(() => clearTimeout(timer), error => {
+            clearTimeout(timer);
+            throw error;
+        });
+    }
+
+    /**
+     * Find a built in function
+     * @param name The name of the function
+     * @returns The function or null if there isn't one with that name
+     */
+    private getBuiltin(name: string): BuiltinFunction {
+        return Object.prototype.hasOwnProperty.call(this.builtins, name) ? this.builtins[name] : null;
+    }
+
+    /**
+     * Describe what is currently running for a built in function
+     * @param mutation The mutation that is calling the function (if any)
+     * @param conversation The conversation that is running it
+     * @returns The context
+     */
+    private createBuiltinContext(mutation: Mutation, conversation: Conversation = this.steppingConversation ?? this.conversation): BuiltinContext {
+        const resource = this.activeResource ?? this.defaultResource;
+        return {
+            line: this.activeLine,
+            title: this.activeLine != null && resource != null ? getProgram(resource).titles[this.activeLine.id] ?? null : null,
+            resource,
+            manager: this,
+            signal: conversation.abortController?.signal ?? null,
+            skipSignal: this.skipController.signal,
+            random: () => this.rng.next(),
+            mutation,
+            emit: (type, payload) => this.emit(type, payload)
+        };
+    }
+
+    /**
+     * Check if a value is contained in a list, string or dictionary
+     * @param value The value to look for
+     * @param container The thing to look in
+     * @returns True if the value was found
+     */
+    private isIn(value: any, container: any): boolean {
+        if (container == null) return false;
+        if (Array.isArray(container) || typeof container === "string") return container.indexOf(value) > -1;
+        if (container instanceof Map || container instanceof Set) return container.has(value);
+        return value in container;
+    }
+    /**
+     * Check if a dialogue line contains meaninful information
+     * @param line A line to check
+     * @returns True if the line is valid
+     */
+    isValid(line: DialogueLine): boolean {
+        if (line.type === TYPE_DIALOGUE && line.dialogue === "") return false;
+        if (line.type === TYPE_MUTATION && line.mutation === null) return false
+        if (line.type === TYPE_RESPONSE && line.responses.length === 0) return false;
+        return true;
+    }
+}
+
+
+
+export class DialogueLine {
+    id: string;
+    // An ID that stays the same when other lines are added or removed (eg. for voice over)
+    stableId: string;
+    type: string = TYPE_DIALOGUE;
+    nextId: string;
+    tags: LineTags;
+
+    mutation: Mutation;
+
+    character: string;
+    dialogue: string;
+    // The dialogue without any inline tags, and where those tags were
+    text: string;
+    markers: Array<DialogueMarker> = [];
+
+    responses: Array<DialogueResponse>;
+
+    constructor(data: LineData, id: string) {
+        this.id = id;
+        this.stableId = data.stable_id ?? id;
+        this.type = data.type;
+        this.nextId = data.next_id;
+        this.tags = { ...data.tags };
+
+        switch (this.type) {
+            case TYPE_DIALOGUE:
+                this.character = data.character;
+                this.dialogue = data.text;
+                this.text = data.text;
+                break;
+
+            case TYPE_MUTATION:
+                this.mutation = data.mutation;
+                break;
+        }
+    }
+}
+
+
+export class DialogueResponse {
+    id: string;
+    stableId: string;
+    prompt: string;
+    nextId: string;
+    tags: LineTags;
+    // True if this response has been chosen before
+    wasChosen: boolean = false;
+    // False if the response's condition failed (only when disabled responses are included)
+    isAllowed: boolean = true;
+    // Why the response isn't allowed (eg. "Requires gold of at least 10")
+    reason: string = null;
+
+    constructor(data: LineData, id: string) {
+        this.id = id;
+        this.stableId = data.stable_id ?? id;
+        this.prompt = data.text;
+        this.nextId = data.next_id;
+        this.tags = { ...data.tags };
+    }
+}
+
+
+function createConversation(): Conversation {
+    return { isRunning: false, isStepping: false, lineId: null, responseIds: [], disabledResponseIds: [], resource: null, abortController: null, onReload: null };
+}
@@ -0,0 +1,168 @@
+import { pickWeighted } from "./random";
+import type { LineTags } from "./types";
+
+
+const VALUE_TAGS = ["wait", "speed", "signal"];
+const SPAN_TAGS = ["b", "i", "speed"];
+const LINE_TAGS_REGEX = /\s*\[#([^\]]*)\]/g;
+
+
+export type DialogueMarker = {
+    // The position in the plain text where the tag was
+    index: number;
+    name: string;
+    value: string;
+    isClosing: boolean;
+}
+
+export type ParsedMarkup = {
+    text: string;
+    markers: Array<DialogueMarker>;
+    // Descriptions of any known tags that were used wrongly (they are left in the text)
+    problems: Array<string>;
+}
+
+export type TaggedText = {
+    text: string;
+    tags: LineTags;
+}
+
+
+/**
+ * Pick one option from each set of random alternatives (eg. "[[Hi|Hello|Howdy]]"). Options
+ * can be weighted by ending them with a percent sign and a number (eg. "[[Hi%3|Hello]]")
+ * @param text Some dialogue
+ * @param random A function that returns a number between 0 and 1
+ * @returns The dialogue with alternatives chosen
+ */
+export function resolveAlternatives(text: string, random: () => number): string {
+    return text.replace(/\[\[(.*?)\]\]/g, (_, options: string) => {
+        const choices = options.split("|").map(option => {
+            const match = option.match(/^(.*?)%([0-9]+(?:\.[0-9]+)?)$/);
+            return match != null ? { text: match[1], weight: parseFloat(match[2]) } : { text: option, weight: 1 };
+        });
+        return choices[pickWeighted(choices.map(choice => choice.weight), random)].text;
+    });
+}
+
+
+/**
+ * Pull any line tags (eg. "[#happy, #portrait=angry]") out of some dialogue
+ * @param text Some dialogue or a response prompt
+ * @returns The text without the tags (or any space before them) and a map of tag names to their values (or true if they have no value)
+ */
+export function extractTags(text: string): TaggedText {
+    const tags: LineTags = {};
+    if (text == null) return { text, tags };
+
+    const plain = text.replace(LINE_TAGS_REGEX, (_, list: string) => {
+        for (const tag of list.split(",")) {
+            const match = tag.trim().match(/^#?([^=\s]+)\s*(?:=\s*(.*))?$/);
+            if (match != null) {
+                tags[match[1]] = match[2] != null ? match[2].trim() : true;
+            }
+        }
+        return "";
+    });
+
+    return { text: plain, tags };
+}
+
+
+/**
+ * Strip inline tags out of some dialogue and note where they were. Anything in brackets that
+ * isn't a known tag is left in the text
+ * @param text Some dialogue
+ * @returns The plain text, a list of markers and any problems with the tags
+ */
+export function parseMarkup(text: string): ParsedMarkup {
+    const markers: Array<DialogueMarker> = [];
+    const problems: Array<string> = [];
+    const open: Array<DialogueMarker> = [];
+    let plain = "";
+
+    let i = 0;
+    while (i < text.length) {
+        const c = text[i];
+
+        // Escaped brackets are just brackets
+        if (c === "\\" && text[i + 1] === "[") {
+            plain += "[";
+            i += 2;
+            continue;
+        }
+
+        if (c === "[") {
+            const close = text.indexOf("]", i);
+            const match = close > -1 ? text.slice(i + 1, close).match(/^(\/?)([a-z_]+)(?:=(.*))?$/) : null;
+            const marker = match != null ? {
+                index: plain.length,
+                name: match[2],
+                value: match[3] ?? null,
+                isClosing: match[1] === "/"
+            } : null;
+
+            // Anything that isn't a known tag is just text
+            if (isKnownTag(marker)) {
+                const problem = getTagProblem(marker, open);
+                if (problem == null) {
+                    if (marker.isClosing) {
+                        open.splice(findLastOpen(open, marker.name), 1);
+                    } else if (SPAN_TAGS.indexOf(marker.name) > -1) {
+                        open.push(marker);
+                    }
+                    markers.push(marker);
+                    i = close + 1;
+                    continue;
+                }
+                problems.push(problem + " '" + text.slice(i, close + 1) + "'");
+            }
+        }
+
+        plain += c;
+        i++;
+    }
+
+    for (const marker of open) {
+        problems.push("Unclosed tag '[" + marker.name + (marker.value != null ? "=" + marker.value : "") + "]'");
+    }
+
+    return { text: plain, markers, problems };
+}
+
+
+function isKnownTag(marker: DialogueMarker): boolean {
+    return marker != null && (SPAN_TAGS.indexOf(marker.name) > -1 || VALUE_TAGS.indexOf(marker.name) > -1);
+}
+
+
+function findLastOpen(open: Array<DialogueMarker>, name: string): number {
+    for (let i = open.length - 1; i >= 0; i--) {
+        if (open[i].name == name) return i;
+    }
+    return -1;
+}
+
+
+/**
+ * Check that a known tag is used properly
+ * @param marker The parsed tag
+ * @param open The span tags that are currently open
+ * @returns A description of the problem or null if there isn't one
+ */
+function getTagProblem(marker: DialogueMarker, open: Array<DialogueMarker>): string {
+    const isSpan = SPAN_TAGS.indexOf(marker.name) > -1;
+    const needsValue = VALUE_TAGS.indexOf(marker.name) > -1;
+
+    if (marker.isClosing) {
+        if (!isSpan || marker.value != null) return "Invalid closing tag";
+        if (findLastOpen(open, marker.name) == -1) return "Closing tag without an opening tag";
+        return null;
+    }
+
+    if (needsValue && (marker.value == null || marker.value === "")) return "Missing value for tag";
+    if (!needsValue && marker.value != null) return "Unexpected value for tag";
+    if ((marker.name == "wait" || marker.name == "speed") && isNaN(parseFloat(marker.value))) return "Expected a number for tag";
+
+    return null;
+}
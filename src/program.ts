@@ -0,0 +1,93 @@
+import { getOwningTitles } from "./utils";
+import type { DialogueResource, LineData } from "./types";
+
+
+export type ProgramLine = {
+    id: string;
+    data: LineData;
+    // The keys of the lines after this one, with any local titles already swapped for line IDs
+    nextId: string;
+    nextConditionalId: string;
+    // True if a title starts at this line
+    isTitleStart: boolean;
+}
+
+export type DialogueProgram = {
+    resource: DialogueResource;
+    // Lines by their key and by the title they start (titles win if a title and a key are the same)
+    entries: Record<string, ProgramLine>;
+    // The title that each line is under
+    titles: Record<string, string>;
+}
+
+
+// Programs are cached against their resource (so a resource that is changed once it has been run
+// has to be forgotten, which reloading a resource does)
+const programs = new WeakMap<DialogueResource, DialogueProgram>();
+
+
+/**
+ * Get the program for a resource (compiling it the first time)
+ * @param resource A dialogue resource
+ * @returns The program
+ */
+export function getProgram(resource: DialogueResource): DialogueProgram {
+    if (!programs.has(resource)) {
+        programs.set(resource, compileProgram(resource));
+    }
+    return programs.get(resource);
+}
+
+
+/**
+ * Throw away the cached program for a resource so that it is compiled again the next time it is run
+ * @param resource A dialogue resource
+ */
+export function forgetProgram(resource: DialogueResource): void {
+    programs.delete(resource);
+}
+
+
+/**
+ * Turn a resource into a form that is quicker to step through
+ * @param resource A dialogue resource
+ * @returns The program
+ */
+export function compileProgram(resource: DialogueResource): DialogueProgram {
+    const lines: Record<string, ProgramLine> = {};
+    for (const id of Object.keys(resource.lines)) {
+        const data = resource.lines[id];
+        lines[id] = {
+            id,
+            data,
+            nextId: resolveKey(resource, data.next_id),
+            nextConditionalId: resolveKey(resource, data.next_conditional_id),
+            isTitleStart: false
+        };
+    }
+
+    const entries = { ...lines };
+    for (const title of Object.keys(resource.titles)) {
+        if (lines[resource.titles[title]] != null) {
+            entries[title] = lines[resource.titles[title]];
+            entries[title].isTitleStart = true;
+        } else {
+            // Titles that lead nowhere are the end of the conversation
+            delete entries[title];
+        }
+    }
+
+    return { resource, entries, titles: getOwningTitles(resource) };
+}
+
+
+/**
+ * Swap a title for the ID of its first line
+ * @param resource A dialogue resource
+ * @param key A title or line key
+ * @returns The line key (or the key as it was if it isn't a local title)
+ */
+function resolveKey(resource: DialogueResource, key: string): string {
+    if (key == null || resource.titles[key] == null) return key;
+    return resource.titles[key];
+}
@@ -0,0 +1,74 @@
+export type RandomState = {
+    seed: number;
+    // How far through the sequence the generator is
+    state: number;
+}
+
+
+/**
+ * A small seedable random number generator (mulberry32) so that the same
+ * seed always gives the same sequence of numbers
+ */
+export class SeededRandom {
+    seed: number;
+    private state: number;
+
+    constructor(seed: number = null) {
+        this.reset(seed ?? Math.floor(Math.random() * 0x100000000));
+    }
+
+    /**
+     * Start the sequence again
+     * @param seed The seed to start from
+     */
+    public reset(seed: number): void {
+        this.seed = seed >>> 0;
+        this.state = this.seed;
+    }
+
+    /**
+     * Get the next number in the sequence
+     * @returns A number between 0 (inclusive) and 1 (exclusive)
+     */
+    public next(): number {
+        this.state = (this.state + 0x6D2B79F5) | 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    }
+
+    /**
+     * Get the seed and position so that the sequence can be picked up again later
+     * @returns A plain JSON state
+     */
+    public save(): RandomState {
+        return { seed: this.seed, state: this.state };
+    }
+
+    /**
+     * Pick up a sequence from where it was saved
+     * @param saved A state from save
+     */
+    public load(saved: RandomState): void {
+        this.seed = saved.seed >>> 0;
+        this.state = saved.state | 0;
+    }
+}
+
+
+/**
+ * Pick an index using weights
+ * @param weights A list of weights (eg. [3, 1] picks the first three times as often)
+ * @param random A function that returns a number between 0 and 1
+ * @returns The picked index
+ */
+export function pickWeighted(weights: Array<number>, random: () => number): number {
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    let roll = random() * total;
+    for (let i = 0; i < weights.length; i++) {
+        roll -= weights[i];
+        if (roll < 0) return i;
+    }
+    return weights.length - 1;
+}
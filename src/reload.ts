@@ -0,0 +1,115 @@
+import { getNextIds, getOwningTitles } from "./utils";
+import type { DialogueResource } from "./types";
+
+
+export type ResourceDiff = {
+    added: Array<string>;
+    removed: Array<string>;
+    changed: Array<string>;
+}
+
+export type LineMatch = {
+    lineId: string;
+    // How the line was found (or "reset" if there is nothing like it any more)
+    match: "id" | "title_offset" | "text" | "reset";
+    // The title the old line was under
+    title: string;
+}
+
+
+/**
+ * Compare the lines of two versions of a resource
+ * @param oldResource The resource before it was changed
+ * @param newResource The resource after it was changed
+ * @returns The line keys that were added, removed or changed
+ */
+export function diffResources(oldResource: DialogueResource, newResource: DialogueResource): ResourceDiff {
+    const diff: ResourceDiff = { added: [], removed: [], changed: [] };
+
+    for (const id of Object.keys(newResource.lines)) {
+        if (oldResource.lines[id] == null) {
+            diff.added.push(id);
+        } else if (JSON.stringify(oldResource.lines[id]) !== JSON.stringify(newResource.lines[id])) {
+            diff.changed.push(id);
+        }
+    }
+    for (const id of Object.keys(oldResource.lines)) {
+        if (newResource.lines[id] == null) diff.removed.push(id);
+    }
+
+    return diff;
+}
+
+
+/**
+ * Find the line in a new version of a resource that is closest to a line in the old version. An
+ * unchanged line with the same key is best, then a line with the same text, then a changed line
+ * with the same key, and then a line the same distance into the same title
+ * @param oldResource The resource before it was changed
+ * @param newResource The resource after it was changed
+ * @param id A line key from the old resource
+ * @returns The matching line key (or null if the position has to be reset)
+ */
+export function findEquivalentLine(oldResource: DialogueResource, newResource: DialogueResource, id: string): LineMatch {
+    const oldLine = oldResource.lines[id];
+    const title = getOwningTitles(oldResource)[id] ?? null;
+    if (oldLine == null) return { lineId: null, match: "reset", title };
+
+    const isSame = (key: string) => {
+        const line = newResource.lines[key];
+        return line.type == oldLine.type && line.text == oldLine.text && line.character == oldLine.character;
+    }
+
+    // The same line
+    const sameId = newResource.lines[id];
+    if (sameId != null && isSame(id)) return { lineId: id, match: "id", title };
+
+    // A line with the same stable ID
+    const sameStableId = oldLine.stable_id != null ? Object.keys(newResource.lines).find(key => newResource.lines[key].stable_id == oldLine.stable_id) : null;
+    if (sameStableId != null && newResource.lines[sameStableId].type == oldLine.type) return { lineId: sameStableId, match: "id", title };
+
+    // Something that says the same thing (preferably still under the same title)
+    if (oldLine.text != null) {
+        const newOwners = getOwningTitles(newResource);
+        const matches = Object.keys(newResource.lines).filter(isSame);
+        const match = matches.find(key => newOwners[key] == title) ?? matches[0];
+        if (match != null) return { lineId: match, match: "text", title };
+    }
+
+    // The same line but with different text (exported line IDs stay the same when lines are edited)
+    if (sameId != null && sameId.type == oldLine.type) return { lineId: id, match: "id", title };
+
+    // The same distance into the same title
+    if (title != null && newResource.titles[title] != null) {
+        const offset = getTitleLines(oldResource, title).indexOf(id);
+        const candidate = getTitleLines(newResource, title)[offset];
+        if (offset > -1 && candidate != null && newResource.lines[candidate].type == oldLine.type) {
+            return { lineId: candidate, match: "title_offset", title };
+        }
+    }
+
+    return { lineId: null, match: "reset", title };
+}
+
+
+/**
+ * List the lines that belong to a title in the order they are first reached
+ * @param resource A dialogue resource
+ * @param title The title
+ * @returns A list of line keys
+ */
+function getTitleLines(resource: DialogueResource, title: string): Array<string> {
+    const owners = getOwningTitles(resource);
+    const lines: Array<string> = [];
+
+    const queue = [resource.titles[title]];
+    while (queue.length > 0) {
+        const id = queue.shift();
+        const data = resource.lines[id];
+        if (data == null || lines.indexOf(id) > -1 || owners[id] != title) continue;
+        lines.push(id);
+        queue.push(...getNextIds(data));
+    }
+
+    return lines;
+}
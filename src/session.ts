@@ -0,0 +1,184 @@
+import { TYPE_RESPONSE } from "./constants";
+import type { DialogueLine, DialogueResponse } from "./manager";
+
+
+// How a session moves its conversation along (the manager keeps the conversation's position)
+export type SessionSteps = {
+    // Get the next printable line from a title or line key
+    next: (key: string, signal: AbortSignal) => Promise<DialogueLine>;
+    choose: (response: DialogueResponse, signal: AbortSignal) => Promise<DialogueLine>;
+    interrupt: () => void;
+}
+
+
+export class DialogueSession implements AsyncIterable<DialogueLine> {
+    current: DialogueLine = null;
+    isFinished: boolean = false;
+
+    private steps: SessionSteps;
+    private key: string;
+    private hasStarted: boolean = false;
+    private lastIteratedLine: DialogueLine = null;
+    private choiceWaiters: Array<(line: DialogueLine) => void> = [];
+    private signal: AbortSignal;
+    private onAbort: () => void;
+
+    constructor(key: string, steps: SessionSteps, signal: AbortSignal = null) {
+        this.key = key;
+        this.steps = steps;
+        this.signal = signal;
+
+        // Aborting the session stops the conversation even while it is waiting on a choice
+        this.onAbort = () => this.interrupt();
+        signal?.addEventListener("abort", this.onAbort);
+    }
+
+    /**
+     * Move on to the next line of dialogue
+     * @param signal Stops the conversation when aborted
+     * @returns The next printable line or null if the conversation has finished
+     */
+    public async next(signal: AbortSignal = null): Promise<DialogueLine> {
+        if (this.isFinished || this.signal?.aborted) return null;
+
+        if (!this.hasStarted) {
+            this.hasStarted = true;
+            return this.goTo(this.key, null, signal);
+        }
+
+        if (this.needsChoice()) throw new Error("A response needs to be chosen before the conversation can continue");
+
+        return this.goTo(this.current.nextId, null, signal);
+    }
+
+    /**
+     * Choose one of the current line's responses
+     * @param indexOrResponse The index of a response or the response itself
+     * @param signal Stops the conversation when aborted
+     * @returns The next printable line or null if the conversation has finished
+     */
+    public async choose(indexOrResponse: number | DialogueResponse, signal: AbortSignal = null): Promise<DialogueLine> {
+        if (this.current == null || this.current.responses.length == 0) throw new Error("There are no responses to choose from");
+
+        const response = typeof indexOrResponse === "number"
+            ? this.current.responses[indexOrResponse]
+            : this.current.responses.find(r => r === indexOrResponse || r.id === indexOrResponse.id);
+        if (response == null) throw new Error("That response is not one of the current line's responses");
+
+        const line = await this.goTo(response.nextId, response, signal);
+        this.resumeWaiters(line);
+
+        return line;
+    }
+
+    /**
+     * Stop the conversation. If it is in the middle of running mutations then it stops
+     * once the current one has finished
+     */
+    public interrupt(): void {
+        if (this.hasStarted && !this.isFinished) this.steps.interrupt();
+        this.finish();
+    }
+
+    /**
+     * Check if the current line is waiting on a response to be chosen
+     * @returns True if choose needs to be called before continuing
+     */
+    public needsChoice(): boolean {
+        if (this.current == null) return false;
+        // Responses that aren't allowed can't be chosen anyway
+        const allowedResponses = this.current.responses.filter(response => response.isAllowed);
+        if (this.current.type == TYPE_RESPONSE) return allowedResponses.length > 0;
+        return allowedResponses.length > 1;
+    }
+
+    [Symbol.asyncIterator](): AsyncIterator<DialogueLine> {
+        return {
+            next: async () => {
+                let line: DialogueLine;
+                if (this.hasStarted && this.current !== this.lastIteratedLine) {
+                    // The conversation was moved along outside of the loop
+                    line = this.current;
+                } else if (this.needsChoice()) {
+                    line = await new Promise<DialogueLine>(resolve => this.choiceWaiters.push(resolve));
+                } else {
+                    line = await this.next();
+                }
+                this.lastIteratedLine = line;
+
+                if (line == null) return { done: true, value: undefined };
+                return { done: false, value: line };
+            }
+        };
+    }
+
+    /**
+     * Get the next printable line from a given key
+     * @param key A title or line key
+     * @param response The response that was chosen to get here (if any)
+     * @param signal Stops the conversation when aborted
+     * @returns The line
+     */
+    private async goTo(key: string, response: DialogueResponse = null, signal: AbortSignal = null): Promise<DialogueLine> {
+        const combined = combineSignals(this.signal, signal);
+        let line: DialogueLine;
+        try {
+            line = response != null
+                ? await this.steps.choose(response, combined)
+                : await this.steps.next(key, combined);
+        } catch (error) {
+            // The manager has already finished the conversation
+            this.finish();
+            throw error;
+        }
+
+        if (line == null || this.isFinished) {
+            this.finish();
+            return null;
+        }
+
+        this.current = line;
+        return line;
+    }
+
+    /**
+     * Mark the session as finished and let anything iterating over it know
+     */
+    private finish(): void {
+        this.isFinished = true;
+        this.current = null;
+        this.signal?.removeEventListener("abort", this.onAbort);
+        this.resumeWaiters(null);
+    }
+
+    /**
+     * Resume anything that was iterating over the conversation
+     * @param line The line to resume with
+     */
+    private resumeWaiters(line: DialogueLine): void {
+        const waiters = this.choiceWaiters;
+        this.choiceWaiters = [];
+        waiters.forEach(resolve => resolve(line));
+    }
+}
+
+
+/**
+ * Make a signal that is aborted when either of two signals are
+ * @param a A signal (or null)
+ * @param b Another signal (or null)
+ * @returns A signal that follows both of them
+ */
+function combineSignals(a: AbortSignal, b: AbortSignal): AbortSignal {
+    if (a == null || b == null) return a ?? b;
+
+    const controller = new AbortController();
+    if (a.aborted || b.aborted) {
+        controller.abort();
+    } else {
+        const abort = () => controller.abort();
+        a.addEventListener("abort", abort);
+        b.addEventListener("abort", abort);
+    }
+    return controller.signal;
+}
@@ -0,0 +1,222 @@
+import { UNSAFE_PROPERTIES } from "./constants";
+import { stringifyPath } from "./expressions";
+
+
+export type StateAdapter = {
+    // Check if a property or method exists
+    has(name: string): boolean;
+    get(name: string): any;
+    // Change a property (or something nested inside one). Returns false if the change wasn't allowed
+    set(path: Array<string>, value: any): boolean;
+    call(name: string, args: Array<any>): any;
+}
+
+export type StateAdapterOptions = {
+    // Return false to stop a property from being changed
+    canSet?: (property: string, value: any, oldValue: any) => boolean;
+    // Change a value before it is written
+    transform?: (property: string, value: any, oldValue: any) => any;
+}
+
+export type ObservableStore = {
+    getState(): any;
+    setState(partial: any): void;
+}
+
+
+// Adapters are made the first time a game state is used and then reused
+const adapters = new WeakMap<object, StateAdapter>();
+// Anything made by createStateAdapter (so that game states with has/get/set/call methods aren't mistaken for adapters)
+const knownAdapters = new WeakSet<StateAdapter>();
+
+
+/**
+ * Get the adapter for a game state, wrapping it in one of the built in adapters if it isn't one already
+ * @param state A game state (a plain object, class instance, Map, observable store or adapter)
+ * @returns The adapter
+ */
+export function getStateAdapter(state: any): StateAdapter {
+    if (isStateAdapter(state)) return state;
+    if (state == null || (typeof state !== "object" && typeof state !== "function")) {
+        throw new Error("Game states have to be objects (got " + (state === null ? "null" : typeof state) + ")");
+    }
+
+    if (!adapters.has(state)) {
+        if (state instanceof Map) {
+            adapters.set(state, createMapAdapter(state));
+        } else if (typeof state.getState === "function" && typeof state.setState === "function") {
+            adapters.set(state, createStoreAdapter(state));
+        } else {
+            adapters.set(state, createObjectAdapter(state));
+        }
+    }
+    return adapters.get(state);
+}
+
+
+/**
+ * Mark something as a state adapter so that it can be given as a game state
+ * @param adapter The adapter's methods
+ * @returns The adapter
+ */
+export function createStateAdapter(adapter: StateAdapter): StateAdapter {
+    knownAdapters.add(adapter);
+    return adapter;
+}
+
+
+/**
+ * Create an adapter for a plain object or class instance. Changes are passed to the object's
+ * set(property, value) method if it has one, otherwise they are assigned so any setters are used
+ * @param object The game state
+ * @param options Rules for changing properties
+ * @returns The adapter
+ */
+export function createObjectAdapter(object: any, options: StateAdapterOptions = {}): StateAdapter {
+    return createStateAdapter({
+        has: name => hasProperty(object, name),
+        get: name => object[name],
+        set: (path, value) => applyChange(options, path, getPathValue(object, path), value, newValue => {
+            if (typeof object.set === "function") {
+                object.set(path[0], replacePathValue(object[path[0]], path.slice(1), newValue));
+            } else {
+                setPathValue(object, path, newValue);
+            }
+        }),
+        call: (name, args) => object[name](...args)
+    });
+}
+
+
+/**
+ * Create an adapter for a Map
+ * @param map The game state
+ * @param options Rules for changing properties
+ * @returns The adapter
+ */
+export function createMapAdapter(map: Map<string, any>, options: StateAdapterOptions = {}): StateAdapter {
+    return createStateAdapter({
+        has: name => typeof map.get(name) !== "undefined",
+        get: name => map.get(name),
+        set: (path, value) => applyChange(options, path, getPathValue(map, path), value, newValue => {
+            setPathValue(map, path, newValue);
+        }),
+        call: (name, args) => map.get(name)(...args)
+    });
+}
+
+
+/**
+ * Create an adapter for an observable store (anything with getState and setState). Changes
+ * are made by passing a copy of the changed property to setState so that subscribers are told
+ * @param store The game state
+ * @param options Rules for changing properties
+ * @returns The adapter
+ */
+export function createStoreAdapter(store: ObservableStore, options: StateAdapterOptions = {}): StateAdapter {
+    return createStateAdapter({
+        has: name => hasProperty(store.getState(), name),
+        get: name => store.getState()[name],
+        set: (path, value) => applyChange(options, path, getPathValue(store.getState(), path), value, newValue => {
+            store.setState({ [path[0]]: replacePathValue(store.getState()[path[0]], path.slice(1), newValue) });
+        }),
+        call: (name, args) => store.getState()[name](...args)
+    });
+}
+
+
+/**
+ * Follow a path into a value
+ * @param value The value to start from
+ * @param path A list of property names
+ * @returns The value at the end of the path (or undefined if any part of the path is missing)
+ */
+export function getPathValue(value: any, path: Array<string>): any {
+    for (const key of path) {
+        if (value == null) return undefined;
+        value = value instanceof Map ? value.get(key) : value[key];
+    }
+    return value;
+}
+
+
+/**
+ * Change the value at the end of a path
+ * @param target The value to start from
+ * @param path A list of property names
+ * @param value The new value
+ * @param shouldCreate Whether to create any missing objects along the path
+ */
+export function setPathValue(target: any, path: Array<string>, value: any, shouldCreate: boolean = false): void {
+    if (path.some(part => UNSAFE_PROPERTIES.indexOf(part) > -1)) throw new Error("Can't set '" + stringifyPath(path) + "'");
+
+    for (let i = 0; i < path.length - 1; i++) {
+        let next = getPathValue(target, [path[i]]);
+        if (next == null) {
+            if (!shouldCreate) throw new Error("Can't set '" + stringifyPath(path) + "' because '" + stringifyPath(path.slice(0, i + 1)) + "' is " + next);
+            next = {};
+            setPathValue(target, [path[i]], next);
+        }
+        target = next;
+    }
+
+    const key = path[path.length - 1];
+    if (target instanceof Map) {
+        target.set(key, value);
+    } else {
+        target[key] = value;
+    }
+}
+
+
+/**
+ * Check if an object has a property or method that isn't undefined (including inherited ones,
+ * but not the ones that every object has like toString)
+ * @param object The object to check
+ * @param name The name of a property or method
+ * @returns True if the object has it
+ */
+function hasProperty(object: any, name: string): boolean {
+    if (object == null || typeof object[name] === "undefined") return false;
+    return Object.prototype.hasOwnProperty.call(object, name) || !(name in Object.prototype);
+}
+
+
+function isStateAdapter(state: any): state is StateAdapter {
+    return knownAdapters.has(state);
+}
+
+
+/**
+ * Check a change against any rules and then make it
+ * @param options Rules for changing properties
+ * @param path The path being changed
+ * @param oldValue The current value
+ * @param value The new value
+ * @param change Makes the change
+ * @returns False if the change wasn't allowed
+ */
+function applyChange(options: StateAdapterOptions, path: Array<string>, oldValue: any, value: any, change: (value: any) => void): boolean {
+    const property = stringifyPath(path);
+    if (options.canSet != null && !options.canSet(property, value, oldValue)) return false;
+
+    change(options.transform != null ? options.transform(property, value, oldValue) : value);
+    return true;
+}
+
+
+/**
+ * Copy a value with one thing at the end of a path changed
+ * @param target The value to copy
+ * @param path A list of property names
+ * @param value The new value
+ * @returns The changed copy
+ */
+function replacePathValue(target: any, path: Array<string>, value: any): any {
+    if (path.length == 0) return value;
+
+    const key = path[0];
+    const copy = target instanceof Map ? new Map(target) : Array.isArray(target) ? target.slice() : { ...target };
+    setPathValue(copy, [key], replacePathValue(getPathValue(target, [key]), path.slice(1), value));
+    return copy;
+}
@@ -0,0 +1,359 @@
+import { compileMutation } from "./expressions";
+import { DialogueManager } from "./manager";
+import type { DialogueLine, DialogueResponse } from "./manager";
+import type { BuiltinContext } from "./builtins";
+import type { DialogueResource, DialogueManagerOptions } from "./types";
+
+
+export type TextMatcher = string | RegExp;
+
+export type RecordedCall = {
+    name: string;
+    args: Array<any>;
+}
+
+type PlaythroughStep = {
+    // What the step is checking (used in failure messages)
+    description: string;
+    run: () => Promise<void>;
+}
+
+
+/**
+ * Start playing through some dialogue in a test
+ * @param resource A dialogue resource
+ * @param options Options for the isolated dialogue manager that the dialogue is played with
+ * @returns A playthrough to add steps to (await it to run them)
+ */
+export function play(resource: DialogueResource, options: DialogueManagerOptions = {}): DialoguePlaythrough {
+    return new DialoguePlaythrough(resource, options);
+}
+
+
+/**
+ * A list of steps to play through some dialogue with. Steps are only run once the
+ * playthrough is awaited, and the first one that fails stops the playthrough
+ */
+export class DialoguePlaythrough implements PromiseLike<void> {
+    manager: DialogueManager;
+
+    private resource: DialogueResource;
+    private title: string = null;
+    private steps: Array<PlaythroughStep> = [];
+    private line: DialogueLine = null;
+    private hasStarted: boolean = false;
+    // Each line and choice so far (for failure messages)
+    private path: Array<string> = [];
+    private calls: Array<RecordedCall> = [];
+    private waited: number = 0;
+    private running: Promise<void> = null;
+
+    constructor(resource: DialogueResource, options: DialogueManagerOptions = {}) {
+        this.resource = resource;
+        this.manager = new DialogueManager({ ...options, defaultResource: resource, gameStates: (options.gameStates ?? []).slice() });
+
+        // Waiting is recorded instead of actually waiting
+        this.manager.registerBuiltin("wait", (context: BuiltinContext, milliseconds: number) => {
+            this.waited += parseFloat(String(milliseconds));
+        });
+        this.manager.addListener("mutation_started", ({ mutation, args }) => {
+            const call = compileMutation(mutation).call;
+            if (call != null) this.calls.push({ name: call.name, args });
+        });
+    }
+
+    /**
+     * Set which title to start from (defaults to the first title in the resource)
+     * @param title A title or line key
+     * @returns The playthrough
+     */
+    public from(title: string): DialoguePlaythrough {
+        this.title = title;
+        return this;
+    }
+
+    /**
+     * Add a game state for the dialogue to use
+     * @param state A game state
+     * @returns The playthrough
+     */
+    public withState(state: any): DialoguePlaythrough {
+        this.manager.gameStates.push(state);
+        return this;
+    }
+
+    /**
+     * Seed the random numbers so that random lines are picked the same way every time
+     * @param seed The seed
+     * @returns The playthrough
+     */
+    public withSeed(seed: number): DialoguePlaythrough {
+        this.manager.setSeed(seed);
+        return this;
+    }
+
+    /**
+     * Check the current line and then move past it (unless it has responses to choose from)
+     * @param character The character that should be speaking (or the text if no text is given)
+     * @param text The text of the line
+     * @returns The playthrough
+     */
+    public expectLine(character: TextMatcher, text: TextMatcher = undefined): DialoguePlaythrough {
+        if (text === undefined) {
+            text = character;
+            character = null;
+        }
+
+        const description = "a line" + (character != null ? " from " + describeMatcher(character) : "") + " matching " + describeMatcher(text);
+        return this.addStep("Expected " + description, async () => {
+            const line = await this.getLine();
+            if (line == null) this.fail("Expected " + description + " but the conversation had finished");
+
+            if ((character != null && !matchesText(line.character, character)) || !matchesText(line.text, text)) {
+                this.fail("Expected " + description + " but got \"" + describeLine(line) + "\"");
+            }
+
+            if (line.responses.length == 0) await this.advance(line.nextId);
+        });
+    }
+
+    /**
+     * Check which responses are offered on the current line
+     * @param prompts The prompts of every response (in order)
+     * @returns The playthrough
+     */
+    public expectResponses(prompts: Array<TextMatcher>): DialoguePlaythrough {
+        const description = "the responses " + prompts.map(describeMatcher).join(", ");
+        return this.addStep("Expected " + description, async () => {
+            const line = await this.getLine();
+            const actual = line?.responses.map(response => response.prompt) ?? [];
+            if (actual.length != prompts.length || prompts.some((prompt, index) => !matchesText(actual[index], prompt))) {
+                this.fail("Expected " + description + " but got " + (actual.length > 0 ? actual.map(prompt => "\"" + prompt + "\"").join(", ") : "no responses"));
+            }
+        });
+    }
+
+    /**
+     * Choose one of the current line's responses
+     * @param prompt The prompt of the response (or its index)
+     * @returns The playthrough
+     */
+    public choose(prompt: TextMatcher | number): DialoguePlaythrough {
+        const description = typeof prompt === "number" ? "response " + prompt : "the response " + describeMatcher(prompt);
+        return this.addStep("Tried to choose " + description, async () => {
+            const line = await this.getLine();
+            const responses = line?.responses ?? [];
+            const response: DialogueResponse = typeof prompt === "number"
+                ? responses[prompt]
+                : responses.find(response => matchesText(response.prompt, prompt));
+            if (response == null) {
+                const available = responses.map(response => "\"" + response.prompt + "\"").join(", ");
+                this.fail("Tried to choose " + description + " but " + (responses.length > 0 ? "the responses were " + available : "there were no responses"));
+            }
+
+            this.path.push("> " + response.prompt);
+            this.line = await this.manager.chooseResponse(response);
+            this.addLineToPath();
+        });
+    }
+
+    /**
+     * Move past the current line without checking it
+     * @param count How many lines to skip
+     * @returns The playthrough
+     */
+    public skip(count: number = 1): DialoguePlaythrough {
+        return this.addStep("Tried to skip " + count + " line" + (count == 1 ? "" : "s"), async () => {
+            for (let i = 0; i < count; i++) {
+                const line = await this.getLine();
+                if (line == null) this.fail("Tried to skip a line but the conversation had finished");
+                await this.advance(line.nextId);
+            }
+        });
+    }
+
+    /**
+     * Check the game state (only the given properties are compared)
+     * @param expected Property paths and their expected values (eg. { gold: 5, "player.name": "Coco" })
+     * @returns The playthrough
+     */
+    public expectState(expected: Record<string, any>): DialoguePlaythrough {
+        return this.addStep("Expected the state " + JSON.stringify(expected), async () => {
+            await this.getLine();
+            for (const property of Object.keys(expected)) {
+                let actual: any;
+                try {
+                    actual = this.manager.getStateValue(property);
+                } catch (error) {
+                    this.fail("Expected '" + property + "' to be " + describeValue(expected[property]) + " but " + error.message);
+                }
+                if (!matchesValue(actual, expected[property])) {
+                    this.fail("Expected '" + property + "' to be " + describeValue(expected[property]) + " but it was " + describeValue(actual));
+                }
+            }
+        });
+    }
+
+    /**
+     * Check that a function was called by a mutation (eg. "do give("sword")")
+     * @param name The name of the function
+     * @param args The arguments it should have been called with (if given)
+     * @returns The playthrough
+     */
+    public expectCall(name: string, args: Array<any> = null): DialoguePlaythrough {
+        const description = "'" + name + "' to be called" + (args != null ? " with " + describeValue(args) : "");
+        return this.addStep("Expected " + description, async () => {
+            await this.getLine();
+            const calls = this.calls.filter(call => call.name == name);
+            if (!calls.some(call => args == null || matchesValue(call.args, args))) {
+                this.fail("Expected " + description + " but " + (calls.length > 0 ? "it was called with " + calls.map(call => describeValue(call.args)).join(", ") : "it wasn't called"));
+            }
+        });
+    }
+
+    /**
+     * Check that the conversation has finished
+     * @returns The playthrough
+     */
+    public expectEnd(): DialoguePlaythrough {
+        return this.addStep("Expected the conversation to end", async () => {
+            const line = await this.getLine();
+            if (line != null) this.fail("Expected the conversation to end but got \"" + describeLine(line) + "\"");
+        });
+    }
+
+    /**
+     * Get every function that has been called by a mutation so far
+     * @returns A list of calls
+     */
+    public getCalls(): Array<RecordedCall> {
+        return this.calls.slice();
+    }
+
+    /**
+     * Get how long the dialogue would have waited for so far
+     * @returns The total of every wait (in milliseconds)
+     */
+    public getWaitedMilliseconds(): number {
+        return this.waited;
+    }
+
+    /**
+     * Run the steps
+     */
+    public then<TResult1 = void, TResult2 = never>(onfulfilled?: (value: void) => TResult1 | PromiseLike<TResult1>, onrejected?: (reason: any) => TResult2 | PromiseLike<TResult2>): PromiseLike<TResult1 | TResult2> {
+        if (this.running == null) {
+            this.running = this.steps.reduce((previous, step) => previous.then(() => this.runStep(step)), Promise.resolve());
+        }
+        return this.running.then(onfulfilled, onrejected);
+    }
+
+    private addStep(description: string, run: () => Promise<void>): DialoguePlaythrough {
+        if (this.running != null) throw new Error("Steps can't be added to a playthrough that has already been run");
+        this.steps.push({ description, run });
+        return this;
+    }
+
+    /**
+     * Run a step, turning any error from the dialogue into a failure
+     * @param step The step
+     */
+    private async runStep(step: PlaythroughStep): Promise<void> {
+        try {
+            await step.run();
+        } catch (error) {
+            if (error instanceof PlaythroughFailure) throw error;
+            this.fail(step.description + " but the dialogue threw an error: " + error.message);
+        }
+    }
+
+    /**
+     * Get the current line (starting the conversation if it hasn't been yet)
+     * @returns The line or null if the conversation has finished
+     */
+    private async getLine(): Promise<DialogueLine> {
+        if (!this.hasStarted) {
+            this.hasStarted = true;
+            const title = this.title ?? Object.keys(this.resource.titles)[0];
+            if (title == null) this.fail("The resource has no titles to start from");
+            this.line = await this.manager.getNextDialogueLine(title);
+            this.addLineToPath();
+        }
+        return this.line;
+    }
+
+    /**
+     * Move on to the next line
+     * @param key The key of the next line
+     */
+    private async advance(key: string): Promise<void> {
+        this.line = await this.manager.getNextDialogueLine(key);
+        this.addLineToPath();
+    }
+
+    private addLineToPath(): void {
+        this.path.push(this.line != null ? describeLine(this.line) : "(end of conversation)");
+    }
+
+    /**
+     * Stop the playthrough
+     * @param message What went wrong
+     */
+    private fail(message: string): never {
+        const path = this.path.map((entry, index) => "  " + entry + (index == this.path.length - 1 ? "  <- here" : ""));
+        throw new PlaythroughFailure(message + (path.length > 0 ? "\n\nPath so far:\n" + path.join("\n") : ""));
+    }
+}
+
+
+/**
+ * Thrown when a playthrough doesn't go the way it was expected to
+ */
+export class PlaythroughFailure extends Error {
+    constructor(message: string) {
+        super(message);
+        Object.setPrototypeOf(this, PlaythroughFailure.prototype);
+        this.name = "PlaythroughFailure";
+    }
+}
+
+
+function matchesText(actual: string, expected: TextMatcher): boolean {
+    if (actual == null) return false;
+    return expected instanceof RegExp ? expected.test(actual) : actual == expected;
+}
+
+
+/**
+ * Check a value against an expected value. Only the properties of expected objects are compared
+ * @param actual The actual value
+ * @param expected The expected value (or a regular expression to test strings with)
+ * @returns True if they match
+ */
+function matchesValue(actual: any, expected: any): boolean {
+    if (expected instanceof RegExp) return typeof actual === "string" && expected.test(actual);
+    if (Array.isArray(expected)) {
+        return Array.isArray(actual) && actual.length == expected.length && expected.every((item, index) => matchesValue(actual[index], item));
+    }
+    if (expected != null && typeof expected === "object") {
+        return actual != null && typeof actual === "object" && Object.keys(expected).every(key => matchesValue(actual[key], expected[key]));
+    }
+    return actual === expected;
+}
+
+
+function describeMatcher(matcher: TextMatcher): string {
+    return matcher instanceof RegExp ? matcher.toString() : "\"" + matcher + "\"";
+}
+
+
+function describeValue(value: any): string {
+    if (value instanceof RegExp) return value.toString();
+    return value === undefined ? "undefined" : JSON.stringify(value);
+}
+
+
+function describeLine(line: DialogueLine): string {
+    if (line.character != null && line.character !== "") return line.character + ": " + line.text;
+    return line.text ?? line.responses.map(response => "- " + response.prompt).join(" ");
+}
@@ -0,0 +1,132 @@
+import type { VoiceAssets } from "./voice";
+import type { RandomState } from "./random";
+import type { DialogueErrorCategory } from "./errors";
+
+
+export type DialogueResource = {
+    titles: Record<string, string>;
+    lines: Record<string, LineData>;
+}
+export type LineData = {
+    type: string;
+    next_id: string;
+    next_conditional_id?: string;
+    next_id_after?: string;
+    character?: string;
+    text?: string;
+    condition?: Condition;
+    mutation?: Mutation;
+    replacements?: Array<Replacement>;
+    responses?: Array<string>;
+    tags?: LineTags;
+    // An ID that stays the same when other lines are added or removed
+    stable_id?: string;
+}
+export type LineTags = Record<string, string | boolean>;
+export type Condition = {
+    lhs_type: string;
+    lhs_function?: string;
+    lhs_args?: Array<any>;
+    lhs?: any;
+    operator?: string;
+    rhs_type?: string;
+    rhs_function?: string;
+    rhs_args?: Array<any>;
+    rhs?: any;
+}
+export type Mutation = {
+    lhs_type: string;
+    lhs_function?: string;
+    lhs_args?: Array<any>;
+    lhs?: any;
+    operator?: string;
+    rhs_type?: string;
+    rhs_function?: string;
+    rhs_args?: Array<any>;
+    rhs?: any;
+}
+export type Replacement = {
+    type: string;
+    value: any;
+    value_in_text: string;
+    function?: string;
+    args?: Array<any>;
+}
+export type DialogueStateSnapshot = {
+    version: number;
+    resourceId: string;
+    resourceName?: string;
+    lineId: string;
+    responseIds: Array<string>;
+    // Responses that were presented but couldn't be chosen
+    disabledResponseIds?: Array<string>;
+    internalState: Record<string, any>;
+    isDialogueRunning: boolean;
+    // Keyed by resource name (or resource ID if it wasn't registered)
+    tracking?: Record<string, LineTracking>;
+    history?: Array<HistoryEntry>;
+    random?: RandomState;
+}
+export type LineTracking = {
+    // How many times each line has been stepped through
+    visits: Record<string, number>;
+    // How many times each response has been chosen
+    chosen: Record<string, number>;
+}
+export type HistoryEntry = {
+    type: "line" | "response";
+    lineId: string;
+    stableId: string;
+    character?: string;
+    text: string;
+    tags: LineTags;
+}
+export type DialogueManagerOptions<TState = any> = {
+    isStrict?: boolean;
+    defaultResource?: DialogueResource;
+    // Each game state only needs part of TState (which isn't worked out from the game states so that
+    // game states of different kinds can be mixed when it isn't given)
+    gameStates?: Array<Partial<WithoutInference<TState>>>;
+    locale?: string;
+    translations?: TranslationProvider;
+    mutationTimeout?: number;
+    resources?: Record<string, DialogueResource>;
+    resourceLoader?: ResourceLoader;
+    voiceAssets?: VoiceAssets;
+    historyLimit?: number;
+    includeDisabledResponses?: boolean;
+    // Seeds the random numbers so that conversations can be replayed
+    seed?: number;
+    // What to do with each kind of error (or one action for all of them)
+    diagnostics?: DiagnosticAction | DiagnosticPolicies;
+}
+export type DiagnosticAction = "throw" | "warn" | "ignore";
+export type DiagnosticPolicies = Partial<Record<DialogueErrorCategory, DiagnosticAction>>;
+export type ResourceLoader = (name: string) => DialogueResource | Promise<DialogueResource>;
+export type TitleCollision = {
+    title: string;
+    resources: Array<string>;
+}
+export type ResourceReload = {
+    added: Array<string>;
+    removed: Array<string>;
+    changed: Array<string>;
+    previousLineId: string;
+    lineId: string;
+    // How the current line was found in the new version (or null if there was no current line)
+    match: "id" | "title_offset" | "text" | "reset";
+    // The title the current line was under
+    title: string;
+    // True if there was nothing like the current line so the conversation was finished
+    isReset: boolean;
+}
+export type TranslationProvider = (locale: string, lineId: string, source: string) => string | null | undefined;
+export type MissingTranslation = {
+    locale: string;
+    lineId: string;
+    text: string;
+}
+
+
+// Stops a type parameter from being worked out from where it is used
+type WithoutInference<T> = [T][T extends any ? 0 : never];
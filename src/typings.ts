@@ -0,0 +1,290 @@
+import { TYPE_DIALOGUE, TYPE_RESPONSE, TYPE_ERROR } from "./constants";
+import { compileCondition, compileMutation, compileReplacement, parsePath } from "./expressions";
+import type { ExpressionNode, CompiledMutation } from "./expressions";
+import { DialogueError } from "./errors";
+import { DEFAULT_BUILTINS } from "./builtins";
+import type { DialogueResource, LineData, Mutation } from "./types";
+
+
+const COMPARISON_OPERATORS = ["==", "!=", ">", ">=", "<", "<="];
+const NUMBER_OPERATORS = ["-", "*", "/", "%"];
+const MUTATION_RETURN_TYPE = "void | Promise<void>";
+const IDENTIFIER_REGEX = /^[a-zA-Z_$][a-zA-Z0-9_$]*$/;
+
+
+export type TypingsOptions = {
+    // The name of the generated interface (defaults to "GameState")
+    interfaceName?: string;
+}
+
+type StateShape = {
+    // Types that have been inferred for the value (null means it couldn't be worked out)
+    types: Array<string>;
+    properties: Record<string, StateShape>;
+    functions: Record<string, FunctionShape>;
+}
+
+type FunctionShape = {
+    // The types that each call passed in (one list per call)
+    calls: Array<Array<string>>;
+    returns: Array<string>;
+}
+
+
+/**
+ * Work out which game state properties and functions a resource needs and describe them as a TypeScript interface
+ * @param resources A dialogue resource (or a list of them)
+ * @param options How to name the interface
+ * @returns The contents of a .d.ts file
+ */
+export function generateTypings(resources: DialogueResource | Array<DialogueResource>, options: TypingsOptions = {}): string {
+    const root = createShape();
+    for (const resource of Array.isArray(resources) ? resources : [resources]) {
+        for (const id of Object.keys(resource.lines)) {
+            addLine(root, resource.lines[id]);
+        }
+    }
+
+    return [
+        "/**",
+        " * The game state properties and functions used by the dialogue.",
+        " * This file was generated by SayWhat so any changes to it will be lost",
+        " */",
+        "export interface " + (options.interfaceName ?? "GameState") + " " + stringifyShape(root, ""),
+        ""
+    ].join("\n");
+}
+
+
+function createShape(): StateShape {
+    return { types: [], properties: {}, functions: {} };
+}
+
+
+/**
+ * Add everything a line uses to the shape
+ * @param root The shape of the game state
+ * @param data A line
+ */
+function addLine(root: StateShape, data: LineData): void {
+    // Expressions that failed to export can't be read
+    const isBroken = (expression: { lhs_type: string, rhs_type?: string }) => expression.lhs_type == TYPE_ERROR || expression.rhs_type == TYPE_ERROR;
+
+    if (data.condition != null && !isBroken(data.condition)) {
+        addExpression(root, compileCondition(data.condition), "boolean");
+    }
+
+    const mutation = data.mutation != null && !isBroken(data.mutation) ? tryCompileMutation(data.mutation) : null;
+    if (mutation?.call) {
+        addCall(root, mutation.call.name, mutation.call.args, MUTATION_RETURN_TYPE);
+    } else if (mutation?.operator) {
+        const valueType = inferType(mutation.value);
+        const type = mutation.operator == "=" || mutation.operator == "+=" ? valueType : "number";
+        addExpression(root, mutation.value, mutation.operator == "=" ? null : type);
+        getShape(root, mutation.path).types.push(mutation.operator == "+=" ? valueType ?? "number" : type);
+    }
+
+    if (data.type == TYPE_DIALOGUE || data.type == TYPE_RESPONSE) {
+        for (const replacement of data.replacements ?? []) {
+            if (replacement.type != TYPE_ERROR) addExpression(root, compileReplacement(replacement), null);
+        }
+    }
+}
+
+
+/**
+ * Compile a mutation
+ * @param mutation A mutation from a dialogue resource
+ * @returns The compiled mutation or null if it changes something that can't be a property
+ */
+function tryCompileMutation(mutation: Mutation): CompiledMutation {
+    try {
+        return compileMutation(mutation);
+    } catch (error) {
+        if (!(error instanceof DialogueError)) throw error;
+        return null;
+    }
+}
+
+
+/**
+ * Add everything an expression uses to the shape
+ * @param root The shape of the game state
+ * @param node A compiled expression
+ * @param expected The type that the expression needs to be (if known)
+ */
+function addExpression(root: StateShape, node: ExpressionNode, expected: string): void {
+    switch (node.type) {
+        case "variable":
+            getShape(root, [node.name].concat(node.path)).types.push(expected);
+            break;
+
+        case "call":
+            addCall(root, node.name, node.args, expected);
+            break;
+
+        case "list":
+            node.items.forEach(item => addExpression(root, item, null));
+            break;
+
+        case "dictionary":
+            node.entries.forEach(entry => entry.forEach(item => addExpression(root, item, null)));
+            break;
+
+        case "unary":
+            addExpression(root, node.operand, node.operator == "not" ? "boolean" : "number");
+            break;
+
+        case "binary":
+            const lhsType = inferType(node.lhs);
+            const rhsType = inferType(node.rhs);
+            if (node.operator == "and" || node.operator == "or") {
+                addExpression(root, node.lhs, expected);
+                addExpression(root, node.rhs, expected);
+            } else if (node.operator == "in") {
+                addExpression(root, node.lhs, null);
+                addExpression(root, node.rhs, lhsType != null ? "Array<" + lhsType + ">" : null);
+            } else if (COMPARISON_OPERATORS.indexOf(node.operator) > -1 || node.operator == "+") {
+                addExpression(root, node.lhs, rhsType);
+                addExpression(root, node.rhs, lhsType);
+            } else if (NUMBER_OPERATORS.indexOf(node.operator) > -1) {
+                addExpression(root, node.lhs, "number");
+                addExpression(root, node.rhs, "number");
+            }
+            break;
+    }
+}
+
+
+/**
+ * Add a function call to the shape
+ * @param root The shape of the game state
+ * @param name The name of the function (eg. "give" or "player.inventory.add")
+ * @param args The arguments it was called with
+ * @param returns The type that the call needs to return (if known)
+ */
+function addCall(root: StateShape, name: string, args: Array<ExpressionNode>, returns: string): void {
+    args.forEach(arg => addExpression(root, arg, null));
+
+    const path = parsePath(name) ?? [name];
+    if (path.length == 1 && Object.prototype.hasOwnProperty.call(DEFAULT_BUILTINS, name)) return;
+
+    const owner = getShape(root, path.slice(0, -1));
+    const functionName = path[path.length - 1];
+    owner.functions[functionName] = owner.functions[functionName] ?? { calls: [], returns: [] };
+    owner.functions[functionName].calls.push(args.map(inferType));
+    owner.functions[functionName].returns.push(returns);
+}
+
+
+/**
+ * Find (or make) the shape at the end of a path
+ * @param root The shape of the game state
+ * @param path A list of property names
+ * @returns The shape
+ */
+function getShape(root: StateShape, path: Array<string>): StateShape {
+    let shape = root;
+    for (const key of path) {
+        shape.properties[key] = shape.properties[key] ?? createShape();
+        shape = shape.properties[key];
+    }
+    return shape;
+}
+
+
+/**
+ * Work out the type of an expression without knowing anything about the game state
+ * @param node A compiled expression
+ * @returns A type or null if it depends on the game state
+ */
+function inferType(node: ExpressionNode): string {
+    switch (node.type) {
+        case "literal":
+            return node.value == null ? null : typeof node.value;
+
+        case "list":
+            return "Array<any>";
+
+        case "dictionary":
+            return "Record<string, any>";
+
+        case "unary":
+            return node.operator == "not" ? "boolean" : "number";
+
+        case "binary":
+            if (node.operator == "+") {
+                const types = [inferType(node.lhs), inferType(node.rhs)];
+                if (types.indexOf("string") > -1) return "string";
+                return types[0] == "number" && types[1] == "number" ? "number" : null;
+            }
+            if (NUMBER_OPERATORS.indexOf(node.operator) > -1) return "number";
+            if (node.operator == "and" || node.operator == "or") return null;
+            return "boolean";
+
+        default:
+            return null;
+    }
+}
+
+
+/**
+ * Combine a list of inferred types
+ * @param types A list of types (null for unknown)
+ * @returns A union of the known types (or "any" if none of them are known)
+ */
+function combineTypes(types: Array<string>): string {
+    types = types.filter(type => type != null);
+    if (types.length == 0 || types.indexOf("any") > -1) return "any";
+
+    const unique: Array<string> = [];
+    for (const type of types) {
+        for (const part of type.split(" | ")) {
+            if (unique.indexOf(part) == -1) unique.push(part);
+        }
+    }
+    return unique.join(" | ");
+}
+
+
+/**
+ * Write out a shape as a TypeScript object type
+ * @param shape The shape
+ * @param indent The indent of the line that the type starts on
+ * @returns The object type
+ */
+function stringifyShape(shape: StateShape, indent: string): string {
+    const inner = indent + "    ";
+    const members: Array<string> = [];
+
+    for (const name of Object.keys(shape.properties).sort()) {
+        const property = shape.properties[name];
+        // Things with their own properties (or methods) are objects
+        const type = Object.keys(property.properties).length > 0 || Object.keys(property.functions).length > 0
+            ? stringifyShape(property, inner)
+            : combineTypes(property.types);
+        members.push(inner + stringifyName(name) + ": " + type + ";");
+    }
+
+    for (const name of Object.keys(shape.functions).sort()) {
+        if (shape.properties[name] != null) continue;
+
+        const fn = shape.functions[name];
+        const required = Math.min(...fn.calls.map(args => args.length));
+        const count = Math.max(...fn.calls.map(args => args.length));
+        const params: Array<string> = [];
+        for (let i = 0; i < count; i++) {
+            const types = fn.calls.filter(args => i < args.length).map(args => args[i]);
+            params.push("arg" + (i + 1) + (i >= required ? "?" : "") + ": " + combineTypes(types));
+        }
+        members.push(inner + stringifyName(name) + "(" + params.join(", ") + "): " + combineTypes(fn.returns) + ";");
+    }
+
+    if (members.length == 0) return "{}";
+    return "{\n" + members.join("\n") + "\n" + indent + "}";
+}
+
+
+function stringifyName(name: string): string {
+    return IDENTIFIER_REGEX.test(name) ? name : JSON.stringify(name);
+}
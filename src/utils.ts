@@ -0,0 +1,69 @@
+import { TYPE_CONDITION, TYPE_RESPONSE } from "./constants";
+import type { DialogueResource, LineData } from "./types";
+
+
+/**
+ * Get the keys of every line the runtime might step to from this one
+ * @param data The line to check
+ * @returns A list of line keys
+ */
+export function getNextIds(data: LineData): Array<string> {
+    const ids = [data.next_id];
+    if (data.type == TYPE_CONDITION && data.next_conditional_id != null) {
+        ids.push(data.next_conditional_id);
+    }
+    if (data.type == TYPE_RESPONSE && data.responses != null) {
+        ids.push(...data.responses);
+    }
+    return ids.filter(id => id != null && id !== "");
+}
+
+
+/**
+ * Work out which title each line belongs to (the closest title it can be reached from)
+ * @param resource A dialogue resource
+ * @returns A map of line keys to title names
+ */
+export function getOwningTitles(resource: DialogueResource): Record<string, string> {
+    const owners: Record<string, string> = {};
+
+    // Search out from every title at once so that lines jumped to from
+    // another title still belong to the title they are written under
+    const queue = Object.keys(resource.titles).map(title => ({ id: resource.titles[title], title }));
+    while (queue.length > 0) {
+        const { id: key, title } = queue.shift();
+        const id = resource.titles[key] ?? key;
+        const data = resource.lines[id];
+        if (data == null || owners[id] != null) continue;
+        owners[id] = title;
+        queue.push(...getNextIds(data).map(nextId => ({ id: nextId, title })));
+    }
+
+    return owners;
+}
+
+
+/**
+ * Split a key that points into another resource (eg. "chapter2/Some title")
+ * @param key A title or line key
+ * @returns The resource name and the key inside it (or null if the key doesn't name a resource)
+ */
+export function parseResourceKey(key: string): { name: string, key: string } {
+    const index = key == null ? -1 : key.indexOf("/");
+    if (index < 1 || index == key.length - 1) return null;
+    return { name: key.slice(0, index), key: key.slice(index + 1) };
+}
+
+
+/**
+ * Make a short hash of some text
+ * @param text Any text
+ * @returns A hex string
+ */
+export function hashText(text: string): string {
+    let hash = 5381;
+    for (let i = 0; i < text.length; i++) {
+        hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(16);
+}
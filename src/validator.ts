@@ -0,0 +1,319 @@
+import { TYPE_CONDITION, TYPE_DIALOGUE, TYPE_MUTATION, TYPE_RESPONSE, TYPE_GOTO, TYPE_ERROR } from "./constants";
+import { compileCondition, compileMutation, compileReplacement, parsePath } from "./expressions";
+import { DialogueError } from "./errors";
+import type { ExpressionNode } from "./expressions";
+import { getNextIds, parseResourceKey } from "./utils";
+import { DEFAULT_BUILTINS } from "./builtins";
+import type { DialogueResource, LineData, Condition, Mutation } from "./types";
+
+
+const BUILTIN_FUNCTIONS = Object.keys(DEFAULT_BUILTINS);
+
+
+export type ValidationOptions = {
+    // Every property and function name available on your game states (and any custom built in functions)
+    knownNames?: Array<string>;
+    // Other resources that gotos can point into (eg. "chapter2/Some title"). Without
+    // these any goto into another resource is assumed to be fine
+    resources?: Record<string, DialogueResource>;
+}
+
+export type ValidationIssue = {
+    type: "dangling_reference" | "missing_title_line" | "unreachable_line" | "error_expression" | "empty_responses" | "goto_cycle" | "unknown_name";
+    severity: "error" | "warning";
+    lineId: string;
+    title?: string;
+    message: string;
+}
+
+
+/**
+ * Check a dialogue resource for problems that would otherwise only show up at runtime
+ * @param resource The dialogue resource to check
+ * @param options Things to check against
+ * @returns A list of any problems that were found
+ */
+export function validateResource(resource: DialogueResource, options: ValidationOptions = {}): Array<ValidationIssue> {
+    const issues: Array<ValidationIssue> = [];
+
+    // Titles
+    for (const title of Object.keys(resource.titles)) {
+        const id = resource.titles[title];
+        if (!resource.lines[id]) {
+            issues.push({
+                type: "missing_title_line",
+                severity: "error",
+                lineId: id,
+                title,
+                message: "Title '" + title + "' points to a missing line '" + id + "'"
+            });
+        }
+    }
+
+    // References and expressions
+    for (const id of Object.keys(resource.lines)) {
+        const data = resource.lines[id];
+
+        for (const [field, key] of getReferences(data)) {
+            if (!isValidReference(key, resource, options.resources)) {
+                issues.push({
+                    type: "dangling_reference",
+                    severity: "error",
+                    lineId: id,
+                    message: "'" + field + "' points to a missing line '" + key + "'"
+                });
+            }
+        }
+
+        if (data.type == TYPE_RESPONSE && data.responses != null && data.responses.length == 0) {
+            issues.push({
+                type: "empty_responses",
+                severity: "error",
+                lineId: id,
+                message: "Response group has no responses"
+            });
+        }
+
+        if (hasErrorExpression(data)) {
+            issues.push({
+                type: "error_expression",
+                severity: "error",
+                lineId: id,
+                message: "This " + data.type + " was not exported properly"
+            });
+        }
+
+        // Anything that can't be parsed (not just syntax errors) would only fail at runtime
+        let names: Array<string> = [];
+        try {
+            names = getReferencedNames(data);
+        } catch (error) {
+            issues.push({
+                type: "error_expression",
+                severity: "error",
+                lineId: id,
+                message: error instanceof DialogueError ? error.message : "This " + data.type + " couldn't be parsed (" + (error?.message ?? error) + ")"
+            });
+        }
+
+        if (options.knownNames) {
+            for (const name of names) {
+                if (options.knownNames.indexOf(name) == -1) {
+                    issues.push({
+                        type: "unknown_name",
+                        severity: "error",
+                        lineId: id,
+                        message: "'" + name + "' is not a property or method on any game state"
+                    });
+                }
+            }
+        }
+    }
+
+    // Reachability
+    const reachable = getReachableIds(resource);
+    for (const id of Object.keys(resource.lines)) {
+        if (!reachable[id]) {
+            issues.push({
+                type: "unreachable_line",
+                severity: "warning",
+                lineId: id,
+                message: "Line '" + id + "' can never be reached"
+            });
+        }
+    }
+
+    // Cycles that never show any dialogue
+    for (const id of findSilentCycles(resource)) {
+        issues.push({
+            type: "goto_cycle",
+            severity: "warning",
+            lineId: id,
+            message: "Line '" + id + "' is part of a loop that never shows any dialogue"
+        });
+    }
+
+    return issues;
+}
+
+
+/**
+ * Get every line key referenced by a line
+ * @param data The line to check
+ * @returns A list of field names and the keys they reference
+ */
+function getReferences(data: LineData): Array<[string, string]> {
+    const references: Array<[string, string]> = [];
+    references.push(["next_id", data.next_id]);
+    if (data.next_conditional_id != null) references.push(["next_conditional_id", data.next_conditional_id]);
+    if (data.next_id_after != null) references.push(["next_id_after", data.next_id_after]);
+    if (data.responses != null) {
+        for (const key of data.responses) {
+            references.push(["responses", key]);
+        }
+    }
+    return references;
+}
+
+
+/**
+ * Check if a key will resolve to something when the dialogue is run
+ * @param key A line key or title
+ * @param resource The dialogue resource
+ * @param resources Any other resources that can be gone to
+ * @returns True if the key ends the conversation or points to a line
+ */
+function isValidReference(key: string, resource: DialogueResource, resources: Record<string, DialogueResource> = null): boolean {
+    if (key == null || key === "") return true;
+    if (resource.titles[key] == null && resource.lines[key] == null) {
+        const reference = parseResourceKey(key);
+        if (reference != null) {
+            if (resources == null) return true;
+            const other = resources[reference.name];
+            return other != null && isValidReference(reference.key, other);
+        }
+    }
+    key = resource.titles[key] ?? key;
+    return resource.lines[key] != null;
+}
+
+
+/**
+ * Walk every line that can be reached from a title
+ * @param resource The dialogue resource
+ * @returns A map of reachable line keys
+ */
+function getReachableIds(resource: DialogueResource): Record<string, boolean> {
+    const reachable: Record<string, boolean> = {};
+    const queue = Object.keys(resource.titles).map(title => resource.titles[title]);
+
+    while (queue.length > 0) {
+        let id = queue.pop();
+        id = resource.titles[id] ?? id;
+        if (reachable[id] || !resource.lines[id]) continue;
+        reachable[id] = true;
+        queue.push(...getNextIds(resource.lines[id]));
+    }
+
+    return reachable;
+}
+
+
+/**
+ * Find loops made up only of lines that don't show anything to the player
+ * @param resource The dialogue resource
+ * @returns The key of one line in each loop
+ */
+function findSilentCycles(resource: DialogueResource): Array<string> {
+    const isSilent = (id: string) => {
+        const data = resource.lines[id];
+        return data != null && (data.type == TYPE_GOTO || data.type == TYPE_CONDITION || data.type == TYPE_MUTATION);
+    }
+
+    const cycles: Array<string> = [];
+    // 1 = being visited, 2 = done
+    const state: Record<string, number> = {};
+
+    for (const start of Object.keys(resource.lines)) {
+        if (state[start] || !isSilent(start)) continue;
+
+        const stack: Array<{ id: string, next: Array<string> }> = [{ id: start, next: getNextIds(resource.lines[start]) }];
+        state[start] = 1;
+        while (stack.length > 0) {
+            const frame = stack[stack.length - 1];
+            if (frame.next.length == 0) {
+                state[frame.id] = 2;
+                stack.pop();
+                continue;
+            }
+
+            let id = frame.next.shift();
+            id = resource.titles[id] ?? id;
+            if (!isSilent(id)) continue;
+            if (state[id] == 1) {
+                cycles.push(id);
+            } else if (!state[id]) {
+                state[id] = 1;
+                stack.push({ id, next: getNextIds(resource.lines[id]) });
+            }
+        }
+    }
+
+    return cycles;
+}
+
+
+/**
+ * Check if any part of a line failed to export
+ * @param data The line to check
+ * @returns True if there was an error
+ */
+function hasErrorExpression(data: LineData): boolean {
+    const expressions: Array<Condition | Mutation> = [data.condition, data.mutation].filter(e => e != null);
+    for (const expression of expressions) {
+        if (expression.lhs_type == TYPE_ERROR || expression.rhs_type == TYPE_ERROR) return true;
+    }
+    for (const replacement of data.replacements ?? []) {
+        if (replacement.type == TYPE_ERROR) return true;
+    }
+    return false;
+}
+
+
+/**
+ * Get every game state property and function name used by a line
+ * @param data The line to check
+ * @returns A list of unique names
+ */
+function getReferencedNames(data: LineData): Array<string> {
+    const names: Array<string> = [];
+    const add = (name: string) => {
+        if (names.indexOf(name) == -1) names.push(name);
+    }
+    const addExpression = (node: ExpressionNode) => {
+        switch (node.type) {
+            case "variable":
+                add(node.name);
+                break;
+            case "call":
+                if (BUILTIN_FUNCTIONS.indexOf(node.name) == -1) add(parsePath(node.name)?.[0] ?? node.name);
+                node.args.forEach(addExpression);
+                break;
+            case "list":
+                node.items.forEach(addExpression);
+                break;
+            case "dictionary":
+                node.entries.forEach(entry => entry.forEach(addExpression));
+                break;
+            case "unary":
+                addExpression(node.operand);
+                break;
+            case "binary":
+                addExpression(node.lhs);
+                addExpression(node.rhs);
+                break;
+        }
+    }
+
+    // Expressions that failed to export are reported separately
+    if (hasErrorExpression(data)) return names;
+
+    if (data.condition) addExpression(compileCondition(data.condition));
+    if (data.mutation) {
+        const mutation = compileMutation(data.mutation);
+        if (mutation.call) {
+            if (BUILTIN_FUNCTIONS.indexOf(mutation.call.name) == -1) add(parsePath(mutation.call.name)?.[0] ?? mutation.call.name);
+            mutation.call.args.forEach(addExpression);
+        } else {
+            add(mutation.path[0]);
+            if (mutation.value) addExpression(mutation.value);
+        }
+    }
+    if (data.type == TYPE_DIALOGUE || data.type == TYPE_RESPONSE) {
+        for (const replacement of data.replacements ?? []) {
+            addExpression(compileReplacement(replacement));
+        }
+    }
+
+    return names;
+}
@@ -0,0 +1,101 @@
+import { TYPE_DIALOGUE, TYPE_RESPONSE } from "./constants";
+import { parseMarkup } from "./markup";
+import { getOwningTitles } from "./utils";
+import type { DialogueLine, DialogueResponse } from "./manager";
+import type { DialogueResource, LineTags } from "./types";
+
+
+const DEFAULT_EXTENSION = "ogg";
+// Responses don't have a character so their clips go in their own folder
+const RESPONSE_CHARACTER = "responses";
+
+
+export type VoiceManifestOptions = {
+    // The file extension for audio clips (defaults to "ogg")
+    extension?: string;
+    // Whether response prompts are spoken too
+    includeResponses?: boolean;
+}
+
+export type VoiceManifestEntry = {
+    lineId: string;
+    stableId: string;
+    title: string;
+    character: string;
+    text: string;
+    tags: LineTags;
+    filename: string;
+}
+
+// Audio clips keyed by stable ID, a voice manifest, or a function that finds the clip for a line
+export type VoiceAssets = Record<string, string> | Array<VoiceManifestEntry> | ((line: DialogueLine | DialogueResponse) => string);
+
+
+/**
+ * List every spoken line in a resource along with a suggested audio filename for it
+ * @param resource A dialogue resource
+ * @param options The file extension and whether to include responses
+ * @returns A list of lines to record
+ */
+export function generateVoiceManifest(resource: DialogueResource, options: VoiceManifestOptions = {}): Array<VoiceManifestEntry> {
+    const owners = getOwningTitles(resource);
+    const entries: Array<VoiceManifestEntry> = [];
+
+    for (const id of Object.keys(resource.lines)) {
+        const data = resource.lines[id];
+        const isSpoken = data.type == TYPE_DIALOGUE || (data.type == TYPE_RESPONSE && options.includeResponses);
+        if (!isSpoken || data.text == null || data.text === "") continue;
+
+        const character = data.type == TYPE_DIALOGUE ? data.character ?? "" : "";
+        const stableId = data.stable_id ?? id;
+        const tags = data.tags ?? {};
+        entries.push({
+            lineId: id,
+            stableId,
+            title: owners[id] ?? null,
+            character,
+            text: parseMarkup(data.text).text,
+            tags,
+            filename: getVoiceFilename(data.type == TYPE_DIALOGUE ? character : RESPONSE_CHARACTER, stableId, tags, options.extension)
+        });
+    }
+
+    return entries;
+}
+
+
+/**
+ * Suggest an audio filename for a line. A "voice" tag (eg. "[#voice=intro_01]") is used as it is,
+ * otherwise the file goes in a folder for the character and is named after the line's stable ID
+ * @param character The character speaking the line
+ * @param stableId The line's stable ID
+ * @param tags The line's tags
+ * @param extension The file extension
+ * @returns A relative filename
+ */
+export function getVoiceFilename(character: string, stableId: string, tags: LineTags = {}, extension: string = DEFAULT_EXTENSION): string {
+    extension = (extension ?? DEFAULT_EXTENSION).replace(/^\./, "");
+
+    if (typeof tags.voice === "string" && tags.voice !== "") {
+        return /\.[a-z0-9]+$/i.test(tags.voice) ? tags.voice : tags.voice + "." + extension;
+    }
+
+    const folder = (character ?? "").toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "narrator";
+    return folder + "/" + stableId + "." + extension;
+}
+
+
+/**
+ * Find the audio clip for a line
+ * @param line A line or response
+ * @param assets Where to look (if not given then the suggested filename is used)
+ * @returns The clip or null if there isn't one
+ */
+export function findVoiceAsset(line: DialogueLine | DialogueResponse, assets: VoiceAssets = null): string {
+    if (typeof assets === "function") return assets(line) ?? null;
+    if (Array.isArray(assets)) return assets.find(entry => entry.stableId == line.stableId)?.filename ?? null;
+    if (assets != null) return assets[line.stableId] ?? null;
+
+    const character = "prompt" in line ? RESPONSE_CHARACTER : line.character;
+    return getVoiceFilename(character, line.stableId, line.tags);
+}
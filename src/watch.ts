@@ -0,0 +1,105 @@
+import * as fs from "fs";
+import * as path from "path";
+import { compile } from "./compiler";
+import { BadExportError } from "./errors";
+import type { DialogueManager } from "./manager";
+import type { DialogueResource, ResourceReload } from "./types";
+
+
+const DEFAULT_DEBOUNCE = 100;
+
+
+export type WatchOptions = {
+    // The resource that was loaded from the file (defaults to the one the manager is using)
+    resource?: DialogueResource;
+    // How long (in milliseconds) to wait for the file to stop changing before reloading it
+    debounce?: number;
+    onReload?: (reload: ResourceReload, resource: DialogueResource) => void;
+    // Defaults to passing the error to the manager's "error" listeners so that a bad export doesn't stop the watcher
+    onError?: (error: Error) => void;
+}
+
+export type ResourceWatcher = {
+    close(): void;
+}
+
+
+/**
+ * Reload a resource into a manager whenever its file changes (Node only)
+ * @param manager The dialogue manager
+ * @param file A JSON export or a raw dialogue file (anything that isn't .json is compiled)
+ * @param options Which resource to replace and what to do after reloading
+ * @returns Something to stop watching with
+ */
+export function watchResource(manager: DialogueManager, file: string, options: WatchOptions = {}): ResourceWatcher {
+    const fullPath = path.resolve(file);
+    const debounce = options.debounce ?? DEFAULT_DEBOUNCE;
+    const onError = options.onError ?? (error => manager.reportError(error));
+
+    let resource = options.resource ?? null;
+    let timer: ReturnType<typeof setTimeout> = null;
+
+    const reload = () => {
+        timer = null;
+        try {
+            if (!fs.existsSync(fullPath)) return;
+            const newResource = loadResourceFile(fullPath);
+            const result = manager.reloadResource(newResource, resource);
+            resource = newResource;
+            options.onReload?.(result, newResource);
+        } catch (error) {
+            onError(error);
+        }
+    }
+
+    // Editors often replace files instead of changing them so watch the whole directory
+    const watcher = fs.watch(path.dirname(fullPath), (_, name) => {
+        if (name != null && name.toString() != path.basename(fullPath)) return;
+        if (timer != null) clearTimeout(timer);
+        timer = setTimeout(reload, debounce);
+    });
+
+    return {
+        close: () => {
+            if (timer != null) clearTimeout(timer);
+            watcher.close();
+        }
+    };
+}
+
+
+/**
+ * Read a resource from a file
+ * @param file The path to a JSON export or raw dialogue
+ * @returns The dialogue resource
+ */
+function loadResourceFile(file: string): DialogueResource {
+    const text = fs.readFileSync(file, "utf8");
+    if (path.extname(file).toLowerCase() != ".json") return compile(text);
+
+    // A file that is still being written can parse without being a whole resource
+    const resource = JSON.parse(text);
+    if (!isResource(resource)) throw new BadExportError("resource");
+    return resource;
+}
+
+
+/**
+ * Check that something parsed from JSON has the shape of a dialogue resource
+ * @param value The parsed JSON
+ * @returns True if it has titles and lines (and every line has a type)
+ */
+function isResource(value: any): value is DialogueResource {
+    if (!isObject(value) || !isObject(value.titles) || !isObject(value.lines)) return false;
+    return Object.keys(value.lines).every(id => isObject(value.lines[id]) && typeof value.lines[id].type === "string");
+}
+
+
+/**
+ * Check if something is a plain object
+ * @param value Anything
+ * @returns True if it is an object (and not an array)
+ */
+function isObject(value: any): boolean {
+    return value != null && typeof value === "object" && !Array.isArray(value);
+}
@@ -0,0 +1,105 @@
+import { compile } from "../src/compiler";
+import { DialogueManager } from "../src/manager";
+import type { BuiltinContext } from "../src/builtins";
+
+
+describe("built in functions", () => {
+    it("are checked before game states for mutations and expressions", async () => {
+        const resource = compile([
+            "# Start",
+            "do shout(\"hey\")",
+            "Nathan: {{double(2)}}"
+        ].join("\n"));
+        const state = { shout: jest.fn(), double: (n: number) => n };
+        const manager = new DialogueManager({ defaultResource: resource, gameStates: [state] });
+        const shouted: Array<string> = [];
+        manager.registerBuiltin("shout", (context: BuiltinContext, text: string) => { shouted.push(text); });
+        manager.registerBuiltin("double", (context: BuiltinContext, n: number) => n * 2);
+
+        const line = await manager.getNextDialogueLine("Start");
+
+        expect(line.dialogue).toBe("4");
+        expect(shouted).toEqual(["hey"]);
+        expect(state.shout).not.toHaveBeenCalled();
+    });
+
+    it("go back to game states once they are unregistered", async () => {
+        const resource = compile("# Start\nNathan: {{double(2)}}");
+        const manager = new DialogueManager({ defaultResource: resource, gameStates: [{ double: (n: number) => n }] });
+        manager.registerBuiltin("double", (context: BuiltinContext, n: number) => n * 2);
+        manager.unregisterBuiltin("double");
+
+        expect((await manager.getNextDialogueLine("Start")).dialogue).toBe("2");
+    });
+
+    it("are given the line, resource and manager", async () => {
+        const resource = compile("# Start\nNathan: Hi\ndo check()\nNathan: Bye");
+        const manager = new DialogueManager({ defaultResource: resource });
+        let context: BuiltinContext;
+        manager.registerBuiltin("check", (c: BuiltinContext) => { context = c; });
+
+        const line = await manager.getNextDialogueLine("Start");
+        await manager.getNextDialogueLine(line.nextId);
+
+        expect(context.manager).toBe(manager);
+        expect(context.resource).toBe(resource);
+        expect(context.mutation).toEqual(expect.objectContaining({ lhs_function: "check" }));
+        expect(context.signal.aborted).toBe(false);
+    });
+
+    it("waits for a number of milliseconds", async () => {
+        const resource = compile("# Start\ndo wait(20)\nNathan: Done");
+        const manager = new DialogueManager({ defaultResource: resource });
+        const started = Date.now();
+
+        expect((await manager.getNextDialogueLine("Start")).dialogue).toBe("Done");
+        expect(Date.now() - started).toBeLessThan(1000);
+    });
+
+    it("can wait and be fast forwarded", async () => {
+        const resource = compile("# Start\ndo wait(60000)\nNathan: Done");
+        const manager = new DialogueManager({ defaultResource: resource });
+
+        const pending = manager.getNextDialogueLine("Start");
+        setTimeout(() => manager.fastForward(), 10);
+
+        expect((await pending).dialogue).toBe("Done");
+    });
+
+    it("debug logs each value with the expression it came from", async () => {
+        const resource = compile("# Start\ndo debug(gold, 1 + 1)\nNathan: Done");
+        const manager = new DialogueManager({ defaultResource: resource, gameStates: [{ gold: 5 }] });
+        const log = jest.spyOn(console, "log").mockImplementation(() => {});
+
+        try {
+            await manager.getNextDialogueLine("Start");
+            expect(log).toHaveBeenCalledTimes(1);
+            expect(Object.keys(log.mock.calls[0][0]).map(key => log.mock.calls[0][0][key])).toEqual([5, 2]);
+        } finally {
+            log.mockRestore();
+        }
+    });
+
+    it("emit sends signals", async () => {
+        const resource = compile("# Start\ndo emit(\"door\", 1)\nNathan: Done");
+        const manager = new DialogueManager({ defaultResource: resource });
+        const signals: Array<any> = [];
+        manager.addListener("signal", signal => { signals.push(signal); });
+
+        await manager.getNextDialogueLine("Start");
+
+        expect(signals).toEqual([{ name: "door", args: [1] }]);
+    });
+
+    it("random gives whole numbers in range", async () => {
+        const resource = compile("# Start\nNathan: {{random(1, 3)}}");
+        const manager = new DialogueManager({ defaultResource: resource, seed: 1 });
+        const values = new Set<string>();
+
+        for (let i = 0; i < 50; i++) {
+            values.add((await manager.getNextDialogueLine("Start")).dialogue);
+        }
+
+        expect(Array.from(values).sort()).toEqual(["1", "2", "3"]);
+    });
+});
@@ -0,0 +1,75 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { compile } from "../src/compiler";
+
+
+/**
+ * Run the command-line player and collect what it prints
+ * @param args The command line arguments
+ * @returns Everything that was printed
+ */
+async function runCli(args: Array<string>): Promise<Array<string>> {
+    const output: Array<string> = [];
+    const log = jest.spyOn(console, "log").mockImplementation((text: string) => { output.push(text); });
+    const argv = process.argv;
+    process.argv = ["node", "saywhat"].concat(args);
+    process.exitCode = undefined;
+    try {
+        jest.isolateModules(() => require("../src/cli"));
+        while (process.exitCode === undefined) {
+            await new Promise(resolve => setTimeout(resolve, 5));
+        }
+        expect(process.exitCode).toBe(0);
+    } finally {
+        process.exitCode = undefined;
+        process.argv = argv;
+        log.mockRestore();
+    }
+    return output;
+}
+
+
+describe("command-line player", () => {
+    let directory: string;
+
+    beforeAll(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "saywhat-"));
+        const resource = compile([
+            "# Start",
+            "set gold += 2",
+            "set seen = 1",
+            "Nathan: Hi {{seen}}",
+            "- Buy",
+            "    set gold -= 1",
+            "- Leave"
+        ].join("\n"));
+        fs.writeFileSync(path.join(directory, "resource.json"), JSON.stringify(resource));
+        fs.writeFileSync(path.join(directory, "state.json"), JSON.stringify({ gold: 1 }));
+        fs.writeFileSync(path.join(directory, "script.txt"), "Buy\n");
+    });
+
+    afterAll(() => {
+        fs.rmSync(directory, { recursive: true });
+    });
+
+    it("plays through with scripted choices", async () => {
+        const output = await runCli([path.join(directory, "resource.json"), "--state", path.join(directory, "state.json"), "--script", path.join(directory, "script.txt"), "--non-strict"]);
+
+        expect(output).toEqual(["Nathan: Hi 1", "  1. Buy", "  2. Leave", "> Buy"]);
+    });
+
+    it("prints changes to game states and non-strict internal state", async () => {
+        const output = await runCli([path.join(directory, "resource.json"), "--state", path.join(directory, "state.json"), "--script", path.join(directory, "script.txt"), "--non-strict", "--diff"]);
+
+        expect(output).toEqual([
+            "  [gold: 1 -> 3]",
+            "  [seen: undefined -> 1]",
+            "Nathan: Hi 1",
+            "  1. Buy",
+            "  2. Leave",
+            "> Buy",
+            "  [gold: 3 -> 2]"
+        ]);
+    });
+});
@@ -0,0 +1,62 @@
+import { compile } from "../src/compiler";
+import { DialogueSyntaxError } from "../src/errors";
+
+
+describe("compile", () => {
+    it("compiles titles, dialogue and gotos", () => {
+        const resource = compile([
+            "# Start",
+            "Nathan: Hi {{name}}",
+            "=> End",
+            "# End",
+            "Coco: Bye"
+        ].join("\n"));
+
+        expect(resource.titles).toEqual({ Start: "2", End: "5" });
+        expect(resource.lines["2"]).toMatchObject({ type: "dialogue", character: "Nathan", text: "Hi {{name}}", next_id: "3" });
+        expect(resource.lines["2"].replacements[0]).toMatchObject({ value_in_text: "{{name}}" });
+        expect(resource.lines["3"]).toMatchObject({ type: "goto", next_id: "5" });
+    });
+
+    it("compiles responses with conditions and nested lines", () => {
+        const resource = compile([
+            "# Start",
+            "Nathan: Well?",
+            "- Yes [if gold > 1]",
+            "    set gold += 1",
+            "- No"
+        ].join("\n"));
+
+        expect(resource.lines["3"]).toMatchObject({ type: "response", text: "Yes", responses: ["3", "5"], next_id: "4" });
+        expect(resource.lines["3"].condition).toMatchObject({ lhs: "gold", operator: ">" });
+        expect(resource.lines["4"]).toMatchObject({ type: "mutation", mutation: { lhs: "gold", operator: "+=" } });
+    });
+
+    it("links if/elif/else branches", () => {
+        const resource = compile([
+            "# Start",
+            "if a",
+            "    Nathan: A",
+            "elif b",
+            "    Nathan: B",
+            "else",
+            "    Nathan: C"
+        ].join("\n"));
+
+        expect(resource.lines["2"]).toMatchObject({ type: "condition", next_id: "3", next_conditional_id: "4" });
+        expect(resource.lines["4"]).toMatchObject({ type: "condition", next_id: "5", next_conditional_id: "6" });
+        expect(resource.lines["6"].condition).toBeUndefined();
+    });
+
+    it("throws syntax errors with a line number", () => {
+        let error: DialogueSyntaxError = null;
+        try {
+            compile("# Start\n=> Nowhere");
+        } catch (e) {
+            error = e;
+        }
+
+        expect(error).toBeInstanceOf(DialogueSyntaxError);
+        expect(error.line).toBe(2);
+    });
+});
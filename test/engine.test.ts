@@ -0,0 +1,90 @@
+import { compile } from "../src/compiler";
+import { DialogueManager } from "../src/manager";
+
+
+const CHAIN_LENGTH = 20000;
+
+
+describe("stepping through dialogue", () => {
+    it("doesn't overflow the stack on long chains of mutations", async () => {
+        const lines = ["# Start"];
+        for (let i = 0; i < CHAIN_LENGTH; i++) {
+            lines.push("set count += 1");
+        }
+        lines.push("Nathan: {{count}}");
+        const manager = new DialogueManager({ defaultResource: compile(lines.join("\n")), gameStates: [{ count: 0 }] });
+
+        expect((await manager.getNextDialogueLine("Start")).dialogue).toBe(String(CHAIN_LENGTH));
+    });
+
+    it("doesn't overflow the stack on long chains of gotos and conditions", async () => {
+        const lines: Array<string> = [];
+        for (let i = 0; i < CHAIN_LENGTH; i++) {
+            lines.push("# Step " + i, "if true", "    => Step " + (i + 1));
+        }
+        lines.push("# Step " + CHAIN_LENGTH, "Nathan: Done");
+        const manager = new DialogueManager({ defaultResource: compile(lines.join("\n")) });
+
+        expect((await manager.getNextDialogueLine("Step 0")).dialogue).toBe("Done");
+    });
+
+    it("gives the same results when a line is run again", async () => {
+        const resource = compile([
+            "# Start",
+            "set count += 2",
+            "if name == \"Coco\" and count < 5",
+            "    Nathan: {{name}} has {{count}}",
+            "else",
+            "    Nathan: Something else"
+        ].join("\n"));
+        const manager = new DialogueManager({ defaultResource: resource, gameStates: [{ count: 0, name: "Coco" }] });
+
+        expect((await manager.getNextDialogueLine("Start")).dialogue).toBe("Coco has 2");
+        expect((await manager.getNextDialogueLine("Start")).dialogue).toBe("Coco has 4");
+        expect((await manager.getNextDialogueLine("Start")).dialogue).toBe("Something else");
+    });
+
+    it("only counts visits to lines that are shown and the start of titles", async () => {
+        const resource = compile([
+            "# Start",
+            "set count += 1",
+            "Nathan: Hi",
+            "if times_seen() > 1",
+            "    Nathan: Again",
+            "=> End",
+            "# End",
+            "Nathan: Bye"
+        ].join("\n"));
+        const manager = new DialogueManager({ defaultResource: resource, gameStates: [{ count: 0 }] });
+        // Lines are numbered by where they are in the source
+        const [mutation, dialogue, condition] = ["2", "3", "4"];
+
+        const first = await manager.getNextDialogueLine("Start");
+        expect((await manager.getNextDialogueLine(first.nextId)).dialogue).toBe("Bye");
+        const second = await manager.getNextDialogueLine("Start");
+        expect((await manager.getNextDialogueLine(second.nextId)).dialogue).toBe("Again");
+
+        expect(manager.getVisitCount("Start")).toBe(2);
+        expect(manager.getVisitCount(mutation)).toBe(2);
+        expect(manager.getVisitCount(dialogue)).toBe(2);
+        expect(manager.getVisitCount(condition)).toBe(0);
+    });
+
+    it("runs resources that were changed in place once they are reloaded", async () => {
+        const resource = compile("# Start\nNathan: Hi\n# Other\nif gold > 1\n    Nathan: Bye");
+        const manager = new DialogueManager({ defaultResource: resource, gameStates: [{ gold: 2 }] });
+        expect((await manager.getNextDialogueLine("Start")).dialogue).toBe("Hi");
+        expect((await manager.getNextDialogueLine("Other")).dialogue).toBe("Bye");
+        const resourceId = manager.saveState().resourceId;
+
+        resource.titles["Start"] = resource.titles["Other"];
+        resource.lines[resource.titles["Other"]].condition.rhs = [{ type: "value", value: "5" }];
+        manager.reloadResource(resource, resource);
+
+        expect(await manager.getNextDialogueLine("Start")).toBeNull();
+        resource.lines[resource.titles["Other"]].condition.operator = "<";
+        manager.reloadResource(resource, resource);
+        expect((await manager.getNextDialogueLine("Start")).dialogue).toBe("Bye");
+        expect(manager.saveState().resourceId).not.toBe(resourceId);
+    });
+});
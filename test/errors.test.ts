@@ -0,0 +1,111 @@
+import { compile } from "../src/compiler";
+import { DialogueError, MissingFunctionError, MissingPropertyError, TypeMismatchError } from "../src/errors";
+import { DialogueManager } from "../src/manager";
+
+
+const resource = compile([
+    "# Start",
+    "Nathan: Hi",
+    "if gold > 5",
+    "    Nathan: Rich",
+    "do open_door()",
+    "Nathan: {{\"gold\" > 5}}"
+].join("\n"));
+
+
+/**
+ * Run the Start title through to the end
+ * @param manager The dialogue manager
+ * @returns The dialogue of every line
+ */
+async function run(manager: DialogueManager): Promise<Array<string>> {
+    const lines: Array<string> = [];
+    let line = await manager.getNextDialogueLine("Start");
+    while (line != null) {
+        lines.push(line.dialogue);
+        line = await manager.getNextDialogueLine(line.nextId);
+    }
+    return lines;
+}
+
+
+describe("errors", () => {
+    it("say where they happened", async () => {
+        const manager = new DialogueManager({ defaultResource: resource });
+
+        const error: MissingPropertyError = await run(manager).then(null, e => e);
+
+        expect(error).toBeInstanceOf(MissingPropertyError);
+        expect(error).toBeInstanceOf(DialogueError);
+        expect(error.category).toBe("missing_property");
+        expect(error.property).toBe("gold");
+        expect(error.title).toBe("Start");
+        expect(error.lineId).toBe(resource.lines[resource.titles["Start"]].next_id);
+        expect(error.expression).toBe("gold > 5");
+        expect(error.message).toContain("'gold'");
+    });
+
+    it("can be kept as warnings", async () => {
+        const manager = new DialogueManager({ defaultResource: resource, diagnostics: "warn" });
+        const reported: Array<DialogueError> = [];
+        manager.addListener("diagnostic", ({ error }) => { reported.push(error); });
+
+        expect(await run(manager)).toEqual(["Hi", "false"]);
+        expect(manager.getDiagnostics().map(error => error.category)).toEqual([
+            "missing_property",
+            // The missing property has no value to compare
+            "type_mismatch",
+            "missing_function",
+            "type_mismatch"
+        ]);
+        expect(manager.getDiagnostics("missing_function")[0]).toBeInstanceOf(MissingFunctionError);
+        expect(manager.getDiagnostics("type_mismatch")[0]).toBeInstanceOf(TypeMismatchError);
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(reported).toEqual(manager.getDiagnostics());
+
+        manager.clearDiagnostics();
+        expect(manager.getDiagnostics()).toEqual([]);
+    });
+
+    it("can have a policy for each category", async () => {
+        const manager = new DialogueManager({
+            defaultResource: resource,
+            gameStates: [{ gold: 10 }],
+            diagnostics: { missing_function: "ignore", type_mismatch: "throw" }
+        });
+
+        await expect(run(manager)).rejects.toThrow(TypeMismatchError);
+        expect(manager.getDiagnostics()).toEqual([]);
+    });
+
+    it("finish the conversation when they are thrown", async () => {
+        const manager = new DialogueManager({ defaultResource: resource });
+        const session = manager.startConversation("Start");
+
+        expect((await session.next()).dialogue).toBe("Hi");
+        await expect(session.next()).rejects.toThrow(MissingPropertyError);
+        expect(session.isFinished).toBe(true);
+        expect(await session.next()).toBeNull();
+
+        await expect(run(manager)).rejects.toThrow(MissingPropertyError);
+        expect(manager.getCurrentLine()).toBeNull();
+        expect(manager.saveState().isDialogueRunning).toBe(false);
+    });
+
+    it("don't leave missing properties on the manager when strict", async () => {
+        const counter = compile("# Start\nset count = 5\nNathan: {{count}}");
+        const strict = new DialogueManager({ defaultResource: counter, diagnostics: { missing_property: "warn" } });
+        const loose = new DialogueManager({ defaultResource: counter, isStrict: false });
+
+        expect((await strict.getNextDialogueLine("Start")).dialogue).not.toBe("5");
+        expect(strict.getDiagnostics("missing_property").length).toBe(2);
+        expect((await loose.getNextDialogueLine("Start")).dialogue).toBe("5");
+    });
+
+    it("ignores missing properties and functions when not strict", async () => {
+        const manager = new DialogueManager({ defaultResource: resource, isStrict: false });
+
+        expect(await run(manager)).toEqual(["Hi", "false"]);
+        expect(manager.getDiagnostics()).toEqual([]);
+    });
+});
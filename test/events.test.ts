@@ -0,0 +1,59 @@
+import { compile } from "../src/compiler";
+import { DialogueManager } from "../src/manager";
+
+
+const resource = compile([
+    "# Start",
+    "set gold += 1",
+    "Nathan: Hi",
+    "- Hello",
+    "    Coco: Bye"
+].join("\n"));
+
+
+describe("events", () => {
+    it("emits lifecycle events in order", async () => {
+        const manager = new DialogueManager({ defaultResource: resource, gameStates: [{ gold: 0 }] });
+        const types: Array<string> = [];
+        manager.addListener("*", type => { types.push(type); });
+
+        const line = await manager.getNextDialogueLine("Start");
+        await manager.chooseResponse(line.responses[0]);
+
+        expect(types).toEqual(expect.arrayContaining(["started", "mutation_started", "state_changed", "mutation_finished", "line", "responses_presented", "response_chosen"]));
+        expect(types.indexOf("mutation_started")).toBeLessThan(types.indexOf("line"));
+    });
+
+    it("waits for listeners that ask to be waited for", async () => {
+        const manager = new DialogueManager({ defaultResource: resource, gameStates: [{ gold: 0 }] });
+        let finished = false;
+        manager.addListener("mutation_started", () => new Promise<void>(resolve => setTimeout(() => { finished = true; resolve(); }, 10)), { wait: true });
+
+        await manager.getNextDialogueLine("Start");
+
+        expect(finished).toBe(true);
+    });
+
+    it("only lets listeners wait on events that happen while stepping", () => {
+        const manager = new DialogueManager({ defaultResource: resource });
+
+        // @ts-expect-error
+        expect(() => manager.addListener("goto", () => {}, { wait: true })).toThrow("'goto' listeners can't be waited on");
+        // @ts-expect-error
+        expect(() => manager.once("state_changed", () => {}, { wait: true })).toThrow("'state_changed' listeners can't be waited on");
+        expect(() => manager.addListener("*", () => {}, { wait: true })).not.toThrow();
+    });
+
+    it("passes failed listeners that aren't waited on to the error event", async () => {
+        const manager = new DialogueManager({ defaultResource: resource, gameStates: [{ gold: 0 }] });
+        const errors: Array<Error> = [];
+        manager.addListener("error", ({ error }) => { errors.push(error); });
+        manager.addListener("state_changed", async () => { throw new Error("Listener failed"); });
+        manager.addListener("started", () => { throw new Error("Started failed"); });
+
+        await manager.getNextDialogueLine("Start");
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        expect(errors.map(error => error.message).sort()).toEqual(["Listener failed", "Started failed"]);
+    });
+});
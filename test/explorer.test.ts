@@ -0,0 +1,75 @@
+import { compile } from "../src/compiler";
+import { exploreResource, formatCoverageReport } from "../src/explorer";
+
+
+describe("exploreResource", () => {
+    it("forces both sides of conditions without any game states", async () => {
+        const resource = compile([
+            "# Start",
+            "if has_sword",
+            "    Nathan: Nice sword",
+            "else",
+            "    Nathan: No sword",
+            "- Bye"
+        ].join("\n"));
+
+        const report = await exploreResource(resource, "Start");
+
+        expect(report.unreachable).toEqual([]);
+        expect(report.isComplete).toBe(true);
+        expect(formatCoverageReport(report)).toMatch(/Start/);
+    });
+
+    it("reports forced conditions that loop back on themselves", async () => {
+        const resource = compile([
+            "# Start",
+            "Nathan: Waiting",
+            "=> Check",
+            "# Check",
+            "if is_ready",
+            "    Nathan: Go",
+            "else",
+            "    => Check"
+        ].join("\n"));
+
+        const report = await exploreResource(resource, "Start");
+
+        expect(report.loops.length).toBe(1);
+        expect(report.loops[0].steps.map(step => step.label)).toEqual(["else"]);
+        expect(formatCoverageReport(report)).toContain("Paths that loop forever");
+    });
+
+    it("reports lines that the given game states can never reach", async () => {
+        const resource = compile([
+            "# Start",
+            "if gold > 100",
+            "    Nathan: Rich",
+            "Nathan: Done"
+        ].join("\n"));
+
+        const report = await exploreResource(resource, "Start", { states: [() => [{ gold: 1 }]] });
+
+        expect(report.unreachable).toEqual(["3"]);
+    });
+
+    it("tells apart paths that only differ in non-strict internal state", async () => {
+        const resource = compile([
+            "# Start",
+            "Nathan: Pick one",
+            "- A",
+            "    set picked = 1",
+            "- B",
+            "    set picked = 2",
+            "Nathan: Again",
+            "- Check",
+            "    if picked == 2",
+            "        Nathan: Secret",
+            "- Leave",
+            "Nathan: Done"
+        ].join("\n"));
+
+        const report = await exploreResource(resource, "Start", { states: [() => [{}]], isStrict: false });
+
+        expect(report.unreachable).toEqual([]);
+    });
+});
@@ -0,0 +1,95 @@
+import { compile } from "../src/compiler";
+import { MissingPropertyError } from "../src/errors";
+import { compileMutation, compileValue, parsePath, stringifyExpression } from "../src/expressions";
+import { DialogueManager } from "../src/manager";
+import { generateTypings } from "../src/typings";
+import { validateResource } from "../src/validator";
+import type { DialogueResource } from "../src/types";
+
+
+/**
+ * A resource that sets a property that could never be on a game state (the compiler won't make one)
+ */
+function createBadPropertyResource(): DialogueResource {
+    return {
+        titles: { Start: "1" },
+        lines: {
+            "1": { type: "mutation", next_id: "2", mutation: { lhs_type: "scalar", lhs: "not a property", operator: "=", rhs_type: "scalar", rhs: [{ type: "value", value: "1" }] } },
+            "2": { type: "dialogue", next_id: "", character: "Nathan", text: "Hi", replacements: [] }
+        }
+    } as any;
+}
+
+
+describe("expressions", () => {
+    it("evaluates operators with precedence", async () => {
+        const manager = new DialogueManager({
+            defaultResource: compile([
+                "# Start",
+                "set total = 1 + 2 * 3",
+                "set list = [1, 2, total]",
+                "if total == 7 and not is_done and 7 in list",
+                "    Nathan: {{total}} {{list[2]}}"
+            ].join("\n")),
+            gameStates: [{ total: 0, list: [] as Array<number>, is_done: false }]
+        });
+
+        const line = await manager.getNextDialogueLine("Start");
+
+        expect(line.dialogue).toBe("7 7");
+    });
+
+    it("calls game state functions with arguments", async () => {
+        const state = { gold: 2, double: (value: number) => value * 2 };
+        const manager = new DialogueManager({ defaultResource: compile("# Start\nNathan: {{double(gold + 1)}}"), gameStates: [state] });
+
+        const line = await manager.getNextDialogueLine("Start");
+
+        expect(line.dialogue).toBe("6");
+    });
+
+    it("turns compiled expressions back into source", () => {
+        expect(stringifyExpression(compileValue("gold + 1 > 2 and not is_done"))).toBe("gold + 1 > 2 and not is_done");
+    });
+
+    it("reuses compiled text", () => {
+        expect(compileValue("gold * 2")).toBe(compileValue("gold * 2"));
+    });
+
+    it("parses property paths", () => {
+        expect(parsePath("quests[\"intro\"].done")).toEqual(["quests", "intro", "done"]);
+        expect(parsePath("items[0]")).toEqual(["items", "0"]);
+        expect(parsePath("not a path")).toBeNull();
+    });
+});
+
+
+describe("mutations of things that can't be properties", () => {
+    it("can't be compiled", () => {
+        expect(() => compileMutation(createBadPropertyResource().lines["1"].mutation)).toThrow(MissingPropertyError);
+    });
+
+    it("are reported by the validator", () => {
+        const issues = validateResource(createBadPropertyResource(), { knownNames: [] });
+
+        expect(issues).toEqual([expect.objectContaining({ type: "error_expression", lineId: "1" })]);
+    });
+
+    it("are left out of typings", () => {
+        expect(generateTypings(createBadPropertyResource())).not.toMatch(/not a property/);
+    });
+
+    it("throw in strict mode", async () => {
+        const manager = new DialogueManager({ defaultResource: createBadPropertyResource() });
+
+        await expect(manager.getNextDialogueLine("Start")).rejects.toThrow(MissingPropertyError);
+    });
+
+    it("are skipped in non-strict mode", async () => {
+        const manager = new DialogueManager({ defaultResource: createBadPropertyResource(), isStrict: false });
+
+        const line = await manager.getNextDialogueLine("Start");
+
+        expect(line.dialogue).toBe("Hi");
+    });
+});
@@ -0,0 +1,78 @@
+import { compile } from "../src/compiler";
+import { toDot, toMermaid } from "../src/graph";
+
+
+const resource = compile([
+    "# Start",
+    "Nathan: One",
+    "Nathan: Two",
+    "if gold > 1",
+    "    Nathan: Rich",
+    "else",
+    "    => chapter2/Shop",
+    "- Buy",
+    "    => Start",
+    "- Leave",
+    "# Lost",
+    "Coco: Never"
+].join("\n"));
+
+
+describe("graphs", () => {
+    it("draws lines, titles and labelled edges as DOT", () => {
+        const dot = toDot(resource);
+
+        expect(dot).toMatch(/^digraph dialogue \{/);
+        expect(dot).toContain("line_2 [label=\"Nathan: One\"];");
+        expect(dot).toContain("line_3 -> line_5 [label=\"if gold > 1\"];");
+        expect(dot).toContain("[label=\"choice 1\"]");
+    });
+
+    it("draws Mermaid flowcharts", () => {
+        const mermaid = toMermaid(resource);
+
+        expect(mermaid).toMatch(/^flowchart TD\n/);
+        expect(mermaid).toContain("line_8([\"- Buy\"])");
+        expect(mermaid).toContain("subgraph cluster_0 [\"Start\"]");
+    });
+
+    it("merges chains of lines", () => {
+        const dot = toDot(resource, { collapseChains: true });
+
+        expect(dot).toContain("line_2 [label=\"Nathan: One\\nNathan: Two\"];");
+        expect(dot).not.toContain("line_3 [");
+    });
+
+    it("only draws what can be reached from a title", () => {
+        const dot = toDot(resource, { title: "Lost" });
+
+        expect(dot).toContain("Coco: Never");
+        expect(dot).not.toContain("Nathan: One");
+    });
+
+    it("shows gotos into other resources as their own nodes", () => {
+        const mermaid = toMermaid(resource, { highlight: true });
+
+        expect(mermaid).toContain("external_0[[\"chapter2/Shop\"]]");
+        expect(mermaid).toContain("line_3 -->|\"else, goto chapter2/Shop\"| external_0");
+        expect(mermaid).not.toMatch(/class .* deadEnd/);
+    });
+
+    it("highlights gotos to missing lines", () => {
+        const broken = compile("# Start\nNathan: Hi");
+        broken.lines["2"].next_id = "99";
+
+        expect(toMermaid(broken, { highlight: true })).toContain("class line_2 deadEnd");
+    });
+
+    it("follows long chains of conditions without running out of stack", () => {
+        const chain = compile("# Start\nNathan: Hi");
+        // Else blocks are conditions without a condition so they don't add to the edge labels
+        for (let i = 0; i < 50000; i++) {
+            chain.lines["else_" + i] = { type: "condition", next_id: i < 49999 ? "else_" + (i + 1) : "", next_conditional_id: "", next_id_after: "" };
+        }
+        chain.lines["2"].next_id = "else_0";
+
+        expect(toDot(chain)).toContain("line_2 -> conversation_end;");
+    });
+});
@@ -0,0 +1,91 @@
+import { compile } from "../src/compiler";
+import { DialogueManager } from "../src/manager";
+
+
+const resource = compile([
+    "# Shop",
+    "if times_seen() == 1",
+    "    Shopkeeper: Welcome, stranger!",
+    "else",
+    "    Shopkeeper: Back again?",
+    "- Buy",
+    "    Shopkeeper: Thanks",
+    "- Leave",
+    "# Street",
+    "if visited(\"Shop\")",
+    "    Nathan: I've been to the shop",
+    "else",
+    "    Nathan: Where is the shop?"
+].join("\n"));
+
+
+/**
+ * Go into the shop and choose a response
+ * @param manager The dialogue manager
+ * @param index Which response to choose
+ * @returns The line with the responses
+ */
+async function visitShop(manager: DialogueManager, index: number) {
+    const line = await manager.getNextDialogueLine("Shop");
+    await manager.chooseResponse(line.responses[index]);
+    return line;
+}
+
+
+describe("history", () => {
+    it("counts visits for conditions", async () => {
+        const manager = new DialogueManager({ defaultResource: resource });
+
+        expect((await manager.getNextDialogueLine("Street")).dialogue).toBe("Where is the shop?");
+        expect((await visitShop(manager, 1)).dialogue).toBe("Welcome, stranger!");
+        expect((await visitShop(manager, 1)).dialogue).toBe("Back again?");
+        expect((await manager.getNextDialogueLine("Street")).dialogue).toBe("I've been to the shop");
+        expect(manager.getVisitCount("Shop")).toBe(2);
+    });
+
+    it("marks responses that have been chosen", async () => {
+        const manager = new DialogueManager({ defaultResource: resource });
+
+        const first = await visitShop(manager, 0);
+        expect(first.responses.map(response => response.wasChosen)).toEqual([false, false]);
+
+        const second = await visitShop(manager, 0);
+        expect(second.responses.map(response => response.wasChosen)).toEqual([true, false]);
+        expect(manager.getChosenCount(second.responses[0])).toBe(2);
+    });
+
+    it("keeps every line and choice in order", async () => {
+        const manager = new DialogueManager({ defaultResource: resource });
+
+        await visitShop(manager, 0);
+
+        expect(manager.getHistory().map(entry => [entry.type, entry.text])).toEqual([
+            ["line", "Welcome, stranger!"],
+            ["response", "Buy"],
+            ["line", "Thanks"]
+        ]);
+    });
+
+    it("can be limited and cleared", async () => {
+        const manager = new DialogueManager({ defaultResource: resource, historyLimit: 2 });
+
+        await visitShop(manager, 0);
+        expect(manager.getHistory().map(entry => entry.text)).toEqual(["Buy", "Thanks"]);
+
+        manager.clearHistory();
+        expect(manager.getHistory()).toEqual([]);
+        expect(manager.getVisitCount("Shop")).toBe(0);
+    });
+
+    it("is included in snapshots", async () => {
+        const manager = new DialogueManager({ defaultResource: resource });
+        await visitShop(manager, 0);
+
+        const other = new DialogueManager({ defaultResource: resource });
+        other.loadState(JSON.parse(JSON.stringify(manager.saveState())));
+
+        expect(other.getHistory()).toEqual(manager.getHistory());
+        expect(other.getVisitCount("Shop")).toBe(1);
+        expect((await other.getNextDialogueLine("Shop")).dialogue).toBe("Back again?");
+    });
+});
@@ -0,0 +1,44 @@
+import dialogueManager, { DialogueManager, compile } from "../src";
+
+
+const resource = compile([
+    "# Start",
+    "set gold += 5",
+    "Nathan: You have {{gold}} gold"
+].join("\n"));
+
+
+describe("dialogue manager instances", () => {
+    it("keeps the default export working", () => {
+        expect(dialogueManager).toBeInstanceOf(DialogueManager);
+    });
+
+    it("keeps game states separate", async () => {
+        const first = new DialogueManager({ defaultResource: resource, gameStates: [{ gold: 0 }] });
+        const second = new DialogueManager({ defaultResource: resource, gameStates: [{ gold: 100 }] });
+
+        expect((await first.getNextDialogueLine("Start")).dialogue).toBe("You have 5 gold");
+        expect((await second.getNextDialogueLine("Start")).dialogue).toBe("You have 105 gold");
+    });
+
+    it("keeps non-strict variables separate", async () => {
+        const first = new DialogueManager({ defaultResource: resource, isStrict: false });
+        const second = new DialogueManager({ defaultResource: resource, isStrict: false });
+
+        await first.getNextDialogueLine("Start");
+        await first.getNextDialogueLine("Start");
+
+        expect((await second.getNextDialogueLine("Start")).dialogue).toBe("You have 5 gold");
+    });
+
+    it("keeps listeners separate", async () => {
+        const first = new DialogueManager({ defaultResource: resource, isStrict: false });
+        const second = new DialogueManager({ defaultResource: resource, isStrict: false });
+        const lines: Array<string> = [];
+        first.addListener("line", ({ line }) => { lines.push(line.dialogue); });
+
+        await second.getNextDialogueLine("Start");
+
+        expect(lines).toEqual([]);
+    });
+});
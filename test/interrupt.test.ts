@@ -0,0 +1,55 @@
+import { compile } from "../src/compiler";
+import { DialogueTimeoutError } from "../src/errors";
+import { DialogueManager } from "../src/manager";
+
+
+describe("stopping conversations", () => {
+    it("interrupts once the running mutation has finished", async () => {
+        const manager = new DialogueManager({
+            defaultResource: compile("# Start\ndo slow()\nset gold = 1\nNathan: Hi"),
+            gameStates: [{ gold: 0, slow: () => new Promise(resolve => setTimeout(resolve, 10)) }]
+        });
+        const finished = jest.fn();
+        manager.addListener("finished", finished);
+
+        const running = manager.getNextDialogueLine("Start");
+        manager.interrupt();
+
+        expect(await running).toBeNull();
+        expect(manager.gameStates[0].gold).toBe(0);
+        expect(finished).toHaveBeenCalledTimes(1);
+    });
+
+    it("stops when a signal is aborted", async () => {
+        const manager = new DialogueManager({ defaultResource: compile("# Start\nNathan: Hi") });
+        const controller = new AbortController();
+        controller.abort();
+
+        expect(await manager.getNextDialogueLine("Start", null, controller.signal)).toBeNull();
+    });
+
+    it("skips waits when fast forwarding", async () => {
+        const manager = new DialogueManager({ defaultResource: compile("# Start\ndo wait(60000)\nNathan: Hi") });
+
+        const running = manager.getNextDialogueLine("Start");
+        setTimeout(() => manager.fastForward(), 10);
+
+        expect((await running).dialogue).toBe("Hi");
+    });
+
+    it("finishes the conversation when a mutation takes too long", async () => {
+        const manager = new DialogueManager({
+            defaultResource: compile("# Start\ndo hang()\nNathan: Hi"),
+            gameStates: [{ hang: () => new Promise(() => {}) }],
+            mutationTimeout: 10
+        });
+        const finished = jest.fn();
+        manager.addListener("finished", finished);
+        manager.addListener("error", () => {});
+
+        await expect(manager.getNextDialogueLine("Start")).rejects.toThrow(DialogueTimeoutError);
+
+        expect(finished).toHaveBeenCalledTimes(1);
+        expect(manager.saveState().isDialogueRunning).toBe(false);
+    });
+});
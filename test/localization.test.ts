@@ -0,0 +1,84 @@
+import { compile } from "../src/compiler";
+import { createTranslationProvider, exportTranslations, extractTranslations, importTranslations } from "../src/localization";
+import type { TranslationEntry, TranslationFormat } from "../src/localization";
+import { DialogueManager } from "../src/manager";
+
+
+const resource = compile([
+    "# Start",
+    "Nathan: Hello, {{name}}. You have {{gold}} gold",
+    "- Thanks, \"friend\"",
+    "- Bye",
+    "Nathan: Untranslated"
+].join("\n"));
+
+
+/**
+ * Fill in every translation in a table
+ * @param table An exported translation table
+ * @param format The table's format
+ * @param translation The text to use for every translation
+ * @returns The translated table
+ */
+function translate(table: string, format: TranslationFormat, translation: string): string {
+    switch (format) {
+        case "csv":
+            const quoted = "\"" + translation.split("\"").join("\"\"") + "\"";
+            return table.split("\n").map((row, index) => index == 0 || row == "" ? row : row + quoted).join("\n");
+        case "po":
+            return table.split("msgstr \"\"").join("msgstr " + JSON.stringify(translation));
+        case "json":
+            return JSON.stringify(JSON.parse(table).map((entry: TranslationEntry) => ({ ...entry, translation })));
+    }
+}
+
+
+describe("localization", () => {
+    it("extracts dialogue and responses with their context", () => {
+        const entries = extractTranslations(resource);
+
+        expect(entries.map(entry => [entry.type, entry.character, entry.title, entry.text])).toEqual([
+            ["dialogue", "Nathan", "Start", "Hello, {{name}}. You have {{gold}} gold"],
+            ["response", "", "Start", "Thanks, \"friend\""],
+            ["response", "", "Start", "Bye"],
+            ["dialogue", "Nathan", "Start", "Untranslated"]
+        ]);
+    });
+
+    it.each(["csv", "po", "json"] as const)("round trips %s tables", format => {
+        const translation = "¡Hola!, \"amigo\"";
+        const table = exportTranslations(resource, format);
+
+        const imported = importTranslations(translate(table, format, translation), format);
+
+        const ids = extractTranslations(resource).map(entry => entry.id);
+        expect(Object.keys(imported).sort()).toEqual(ids.sort());
+        expect(ids.every(id => imported[id] === translation)).toBe(true);
+    });
+
+    it("leaves out rows that haven't been translated", () => {
+        expect(importTranslations(exportTranslations(resource, "csv"), "csv")).toEqual({});
+    });
+
+    it("uses translations with replacements in any order and falls back to the original text", async () => {
+        const [hello, thanks] = extractTranslations(resource);
+        const manager = new DialogueManager({ defaultResource: resource, gameStates: [{ name: "Coco", gold: 3 }] });
+        const missing: Array<string> = [];
+        manager.addListener("translation_missing", ({ lineId }) => { missing.push(lineId); });
+        manager.setLocale("es", createTranslationProvider({
+            es: {
+                [hello.id]: "Tienes {{gold}} oro, {{name}}",
+                [thanks.id]: "Gracias"
+            }
+        }));
+
+        const line = await manager.getNextDialogueLine("Start");
+        expect(line.dialogue).toBe("Tienes 3 oro, Coco");
+        expect(line.responses.map(response => response.prompt)).toEqual(["Gracias", "Bye"]);
+
+        expect(manager.getMissingTranslations()).toEqual([
+            expect.objectContaining({ locale: "es", text: "Bye" })
+        ]);
+        expect(missing).toEqual([manager.getMissingTranslations()[0].lineId]);
+    });
+});
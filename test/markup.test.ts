@@ -0,0 +1,89 @@
+import { compile } from "../src/compiler";
+import { BadMarkupError } from "../src/errors";
+import { DialogueManager } from "../src/manager";
+import { parseMarkup, extractTags, resolveAlternatives } from "../src/markup";
+
+
+describe("parseMarkup", () => {
+    it("strips tags and notes where they were", () => {
+        const markup = parseMarkup("[wait=0.5]This is [b]important[/b].[signal=wave]");
+
+        expect(markup.text).toBe("This is important.");
+        expect(markup.markers).toEqual([
+            { index: 0, name: "wait", value: "0.5", isClosing: false },
+            { index: 8, name: "b", value: null, isClosing: false },
+            { index: 17, name: "b", value: null, isClosing: true },
+            { index: 18, name: "signal", value: "wave", isClosing: false }
+        ]);
+        expect(markup.problems).toEqual([]);
+    });
+
+    it("leaves unknown tags and stray brackets in the text", () => {
+        const markup = parseMarkup("Roll [1d6] [ then \\[b]");
+
+        expect(markup.text).toBe("Roll [1d6] [ then [b]");
+        expect(markup.markers).toEqual([]);
+        expect(markup.problems).toEqual([]);
+    });
+
+    it("reports known tags that are used wrongly", () => {
+        const markup = parseMarkup("[wait]Hi[/i] [speed=fast]");
+
+        expect(markup.text).toBe("[wait]Hi[/i] [speed=fast]");
+        expect(markup.problems).toEqual(["Missing value for tag '[wait]'", "Closing tag without an opening tag '[/i]'", "Expected a number for tag '[speed=fast]'"]);
+    });
+
+    it("reports span tags that are never closed", () => {
+        const markup = parseMarkup("[b]Bold [speed=2]and fast[/speed]");
+
+        expect(markup.markers.length).toBe(3);
+        expect(markup.problems).toEqual(["Unclosed tag '[b]'"]);
+    });
+});
+
+
+describe("markup in dialogue", () => {
+    const resource = compile("# Start\nNathan: [b]Hi {{name}}");
+
+    it("reports problems through the diagnostics policy", async () => {
+        const manager = new DialogueManager({ defaultResource: resource, gameStates: [{ name: "Coco" }], diagnostics: { bad_markup: "warn" } });
+
+        const line = await manager.getNextDialogueLine("Start");
+
+        expect(line.text).toBe("Hi Coco");
+        expect(manager.getDiagnostics("bad_markup")).toEqual([expect.any(BadMarkupError)]);
+        expect(manager.getDiagnostics()[0].lineId).toBe("2");
+    });
+
+    it("throws problems in strict mode", async () => {
+        const manager = new DialogueManager({ defaultResource: resource, gameStates: [{ name: "Coco" }] });
+
+        await expect(manager.getNextDialogueLine("Start")).rejects.toThrow(BadMarkupError);
+    });
+
+    it("doesn't treat brackets in replacements as tags", async () => {
+        const manager = new DialogueManager({ defaultResource: compile("# Start\nNathan: Hi {{name}}"), gameStates: [{ name: "[Coco" }] });
+
+        const line = await manager.getNextDialogueLine("Start");
+
+        expect(line.text).toBe("Hi [Coco");
+    });
+
+    it("ignores problems when not strict", async () => {
+        const manager = new DialogueManager({ defaultResource: resource, gameStates: [{ name: "Coco" }], isStrict: false });
+
+        await expect(manager.getNextDialogueLine("Start")).resolves.toMatchObject({ text: "Hi Coco" });
+    });
+});
+
+
+describe("tags and alternatives", () => {
+    it("extracts line tags", () => {
+        expect(extractTags("Hi there [#happy, #portrait=angry]")).toEqual({ text: "Hi there", tags: { happy: true, portrait: "angry" } });
+    });
+
+    it("picks weighted alternatives", () => {
+        expect(resolveAlternatives("[[Hi|Hello%3]]", () => 0.9)).toBe("Hello");
+        expect(resolveAlternatives("[[Hi|Hello%3]]", () => 0.1)).toBe("Hi");
+    });
+});
@@ -0,0 +1,102 @@
+import { compile } from "../src/compiler";
+import { DialogueManager } from "../src/manager";
+import { SeededRandom, pickWeighted } from "../src/random";
+
+
+const resource = compile([
+    "# Greeting",
+    "%3 Shopkeeper: Welcome!",
+    "% Shopkeeper: Oh, it's you.",
+    "%",
+    "    Shopkeeper: Hmm?",
+    "    Shopkeeper: Sorry, I was miles away.",
+    "# Alternatives",
+    "Nathan: [[Hi|Hello|Hey]] there"
+].join("\n"));
+
+
+/**
+ * Get the first line of a title a number of times
+ * @param manager The dialogue manager
+ * @param title The title to start from
+ * @param times How many times
+ * @returns The dialogue of each line
+ */
+async function sample(manager: DialogueManager, title: string, times: number): Promise<Array<string>> {
+    const lines: Array<string> = [];
+    for (let i = 0; i < times; i++) {
+        lines.push((await manager.getNextDialogueLine(title)).dialogue);
+    }
+    return lines;
+}
+
+
+describe("seeded random numbers", () => {
+    it("give the same sequence for the same seed", () => {
+        const a = new SeededRandom(42);
+        const b = new SeededRandom(42);
+        const numbers = [a.next(), a.next(), a.next()];
+
+        expect([b.next(), b.next(), b.next()]).toEqual(numbers);
+        expect(numbers.every(n => n >= 0 && n < 1)).toBe(true);
+    });
+
+    it("can be saved and picked up again", () => {
+        const random = new SeededRandom(7);
+        random.next();
+        const saved = random.save();
+        const expected = random.next();
+
+        const other = new SeededRandom(1);
+        other.load(saved);
+
+        expect(other.next()).toBe(expected);
+    });
+
+    it("pick using weights", () => {
+        expect(pickWeighted([3, 1], () => 0.7)).toBe(0);
+        expect(pickWeighted([3, 1], () => 0.8)).toBe(1);
+        expect(pickWeighted([0, 1], () => 0)).toBe(1);
+    });
+});
+
+
+describe("random lines", () => {
+    it("pick one line from a random group", async () => {
+        const manager = new DialogueManager({ defaultResource: resource, seed: 3 });
+
+        const lines = await sample(manager, "Greeting", 100);
+
+        expect(Array.from(new Set(lines)).sort()).toEqual(["Hmm?", "Oh, it's you.", "Welcome!"]);
+        expect(lines.filter(line => line == "Welcome!").length).toBeGreaterThan(40);
+    });
+
+    it("pick random alternatives", async () => {
+        const manager = new DialogueManager({ defaultResource: resource, seed: 3 });
+
+        const lines = await sample(manager, "Alternatives", 30);
+
+        expect(Array.from(new Set(lines)).sort()).toEqual(["Hello there", "Hey there", "Hi there"]);
+    });
+
+    it("are the same for the same seed", async () => {
+        const first = await sample(new DialogueManager({ defaultResource: resource, seed: 9 }), "Greeting", 20);
+        const manager = new DialogueManager({ defaultResource: resource });
+        manager.setSeed(9);
+
+        expect(await sample(manager, "Greeting", 20)).toEqual(first);
+        expect(manager.getSeed()).toBe(9);
+    });
+
+    it("carry on from where a snapshot was saved", async () => {
+        const manager = new DialogueManager({ defaultResource: resource, seed: 5 });
+        await sample(manager, "Greeting", 5);
+        const snapshot = manager.saveState();
+        const expected = await sample(manager, "Greeting", 10);
+
+        const other = new DialogueManager({ defaultResource: resource });
+        other.loadState(snapshot);
+
+        expect(await sample(other, "Greeting", 10)).toEqual(expected);
+    });
+});
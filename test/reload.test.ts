@@ -0,0 +1,107 @@
+import { compile } from "../src/compiler";
+import { DialogueManager } from "../src/manager";
+import { diffResources, findEquivalentLine } from "../src/reload";
+
+
+const original = compile([
+    "# Start",
+    "Nathan: One",
+    "Nathan: Two",
+    "# Other",
+    "Coco: Hi"
+].join("\n"));
+
+
+describe("finding equivalent lines", () => {
+    it("prefers the same line", () => {
+        const updated = compile("# Start\nNathan: Intro\nNathan: One\nNathan: Two");
+
+        expect(findEquivalentLine(original, updated, "3")).toEqual({ lineId: "4", match: "id", title: "Start" });
+    });
+
+    it("finds lines that say the same thing", () => {
+        const updated = compile("# Moved\n\n\n\nNathan: Two");
+
+        expect(findEquivalentLine(original, updated, "3")).toEqual({ lineId: "5", match: "text", title: "Start" });
+    });
+
+    it("falls back to the same distance into the title", () => {
+        const updated = compile("# Start\nNathan: Uno\n\nNathan: Dos");
+
+        expect(findEquivalentLine(original, updated, "3")).toEqual({ lineId: "4", match: "title_offset", title: "Start" });
+    });
+
+    it("resets when there is nothing like it", () => {
+        const updated = compile("# Other\nCoco: Hi");
+
+        expect(findEquivalentLine(original, updated, "3")).toEqual({ lineId: null, match: "reset", title: "Start" });
+    });
+
+    it("lists added, removed and changed lines", () => {
+        const updated = compile("# Start\nNathan: Uno\n\nNathan: Dos");
+
+        expect(diffResources(original, updated)).toEqual({ added: ["4"], removed: ["3", "5"], changed: ["2"] });
+    });
+});
+
+
+describe("reloading resources", () => {
+    it("moves the conversation to the new version", async () => {
+        const manager = new DialogueManager({ defaultResource: original });
+        const reloaded: Array<string> = [];
+        manager.addListener("resource_reloaded", ({ line }) => { reloaded.push(line.dialogue); });
+        const line = await manager.getNextDialogueLine("Start");
+        const updated = compile("# Start\nNathan: Intro\nNathan: One\nNathan: Two");
+
+        const reload = manager.reloadResource(updated);
+
+        expect(reload).toEqual(expect.objectContaining({ previousLineId: line.id, lineId: "3", match: "id", isReset: false }));
+        expect(manager.defaultResource).toBe(updated);
+        expect(manager.getCurrentLine().dialogue).toBe("One");
+        expect(reloaded).toEqual(["One"]);
+        expect((await manager.getNextDialogueLine(manager.getCurrentLine().nextId)).dialogue).toBe("Two");
+    });
+
+    it("finishes the conversation when its position is gone", async () => {
+        const manager = new DialogueManager({ defaultResource: original });
+        const finished = jest.fn();
+        manager.addListener("finished", finished);
+        await manager.getNextDialogueLine("Start");
+        await manager.getNextDialogueLine("3");
+        expect(finished).not.toHaveBeenCalled();
+
+        const reload = manager.reloadResource(compile("# Other\nCoco: Hi"));
+
+        expect(reload.isReset).toBe(true);
+        expect(manager.getCurrentLine()).toBeNull();
+        await new Promise(resolve => setTimeout(resolve, 0));
+        expect(finished).toHaveBeenCalled();
+    });
+
+    it("moves sessions to the new version", async () => {
+        const manager = new DialogueManager({ defaultResource: original });
+        const session = manager.startConversation("Start", original);
+        const waiting = manager.startConversation("Start", original);
+        expect((await session.next()).dialogue).toBe("One");
+
+        manager.reloadResource(compile("# Start\nNathan: Intro\nNathan: One\nNathan: Two\nNathan: Three"), original);
+
+        expect(session.current).toEqual(expect.objectContaining({ id: "3", dialogue: "One" }));
+        expect((await session.next()).dialogue).toBe("Two");
+        expect((await session.next()).dialogue).toBe("Three");
+        // Sessions that hadn't started yet use the new version too
+        expect((await waiting.next()).dialogue).toBe("Intro");
+    });
+
+    it("finishes sessions when their position is gone", async () => {
+        const manager = new DialogueManager({ defaultResource: original });
+        const session = manager.startConversation("Start");
+        await session.next();
+        expect((await session.next()).dialogue).toBe("Two");
+
+        manager.reloadResource(compile("# Other\nCoco: Hi"));
+
+        expect(session.isFinished).toBe(true);
+        expect(await session.next()).toBeNull();
+    });
+});
@@ -0,0 +1,91 @@
+import { compile } from "../src/compiler";
+import { createTranslationProvider, extractTranslations } from "../src/localization";
+import { DialogueManager } from "../src/manager";
+
+
+const chapter1 = compile([
+    "# Start",
+    "Nathan: Chapter one",
+    "=> chapter2/Intro",
+    "# Intro",
+    "Nathan: Another intro"
+].join("\n"));
+
+const chapter2 = compile([
+    "# Intro",
+    "Coco: Chapter two",
+    "Coco: The end"
+].join("\n"));
+
+
+describe("multiple resources", () => {
+    it("goes into other resources", async () => {
+        const manager = new DialogueManager({ resources: { chapter1, chapter2 } });
+
+        let line = await manager.getNextDialogueLine("chapter1/Start");
+        expect(line.dialogue).toBe("Chapter one");
+        expect(manager.getCurrentResourceName()).toBe("chapter1");
+
+        line = await manager.getNextDialogueLine(line.nextId);
+        expect(line.dialogue).toBe("Chapter two");
+        expect(manager.getCurrentResourceName()).toBe("chapter2");
+
+        line = await manager.getNextDialogueLine(line.nextId);
+        expect(line.dialogue).toBe("The end");
+    });
+
+    it("loads resources the first time they are needed (and only once)", async () => {
+        const loader = jest.fn(async (name: string) => name == "chapter2" ? chapter2 : null);
+        const manager = new DialogueManager({ resources: { chapter1 }, resourceLoader: loader });
+        const loaded: Array<string> = [];
+        manager.addListener("resource_loaded", ({ name }) => { loaded.push(name); });
+
+        const line = await manager.getNextDialogueLine("chapter1/Start");
+        const [next, a, b] = await Promise.all([
+            manager.getNextDialogueLine(line.nextId),
+            manager.loadResource("chapter2"),
+            manager.loadResource("chapter2")
+        ]);
+
+        expect(next.dialogue).toBe("Chapter two");
+        expect(a).toBe(chapter2);
+        expect(b).toBe(chapter2);
+        expect(loader).toHaveBeenCalledTimes(1);
+        expect(loaded).toEqual(["chapter2"]);
+        await expect(manager.loadResource("chapter3")).rejects.toThrow("chapter3");
+    });
+
+    it("reports titles that are in more than one resource", () => {
+        const manager = new DialogueManager({ resources: { chapter1 } });
+
+        expect(manager.registerResource("chapter2", chapter2)).toEqual([{ title: "Intro", resources: ["chapter1", "chapter2"] }]);
+        expect(() => manager.registerResource("bad/name", chapter2)).toThrow();
+    });
+
+    it("can't unregister a resource that is being used", async () => {
+        const manager = new DialogueManager({ resources: { chapter1, chapter2 } });
+
+        await manager.getNextDialogueLine("chapter2/Intro");
+
+        expect(() => manager.unregisterResource("chapter2")).toThrow("chapter2");
+        manager.unregisterResource("chapter1");
+        expect(manager.getResource("chapter1")).toBeNull();
+    });
+
+    it("translates lines by their resource name", async () => {
+        const manager = new DialogueManager({ resources: { chapter1, chapter2 } });
+        const es: Record<string, string> = {};
+        for (const name of ["chapter1", "chapter2"]) {
+            for (const entry of extractTranslations(manager.getResource(name), name)) {
+                es[entry.id] = entry.text.toUpperCase();
+            }
+        }
+        manager.setLocale("es", createTranslationProvider({ es }));
+
+        // Both resources have a line 2
+        expect(Object.keys(es)).toEqual(expect.arrayContaining(["chapter1/2", "chapter2/2"]));
+        const line = await manager.getNextDialogueLine("chapter1/Start");
+        expect(line.dialogue).toBe("CHAPTER ONE");
+        expect((await manager.getNextDialogueLine(line.nextId)).dialogue).toBe("CHAPTER TWO");
+    });
+});
@@ -0,0 +1,52 @@
+import { compile } from "../src/compiler";
+import { DialogueManager } from "../src/manager";
+import { play } from "../src/testing";
+
+
+const resource = compile([
+    "# Shop",
+    "Shopkeeper: That will be {{price}} gold.",
+    "- Pay {{price}} gold [if gold >= price]",
+    "    Shopkeeper: Thanks",
+    "- Pay with a favour [if reputation > 10] [#reason=Requires a good reputation]",
+    "    Shopkeeper: Deal",
+    "- Leave",
+    "    Shopkeeper: Bye"
+].join("\n"));
+
+
+describe("responses", () => {
+    it("have their replacements filled in", async () => {
+        await play(resource)
+            .from("Shop")
+            .withState({ price: 10, gold: 20, reputation: 20 })
+            .expectLine("Shopkeeper", "That will be 10 gold.")
+            .expectResponses(["Pay 10 gold", "Pay with a favour", "Leave"]);
+    });
+
+    it("leave out responses that can't be chosen", async () => {
+        await play(resource)
+            .from("Shop")
+            .withState({ price: 10, gold: 0, reputation: 0 })
+            .expectResponses(["Leave"]);
+    });
+
+    it("can include disabled responses with a reason", async () => {
+        const manager = new DialogueManager({
+            defaultResource: resource,
+            gameStates: [{ price: 10, gold: 0, reputation: 0 }],
+            includeDisabledResponses: true
+        });
+
+        const line = await manager.getNextDialogueLine("Shop");
+
+        expect(line.responses.map(response => [response.prompt, response.isAllowed, response.reason])).toEqual([
+            ["Pay 10 gold", false, "Requires gold of at least price"],
+            ["Pay with a favour", false, "Requires a good reputation"],
+            ["Leave", true, null]
+        ]);
+        await expect(manager.chooseResponse(line.responses[0])).rejects.toThrow("can't be chosen");
+        // Only one response can be chosen so the line goes straight past it
+        expect((await manager.getNextDialogueLine(line.nextId)).dialogue).toBe("Bye");
+    });
+});
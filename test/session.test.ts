@@ -0,0 +1,103 @@
+import { compile } from "../src/compiler";
+import { DialogueManager } from "../src/manager";
+
+
+const resource = compile([
+    "# Start",
+    "Nathan: Hi",
+    "- Hello",
+    "    Coco: Hello back",
+    "- Bye",
+    "Nathan: Done",
+    "# Other",
+    "Coco: One",
+    "Coco: Two"
+].join("\n"));
+
+
+describe("sessions", () => {
+    it("steps through a conversation and waits for choices", async () => {
+        const manager = new DialogueManager({ defaultResource: resource });
+        const session = manager.startConversation("Start");
+
+        const line = await session.next();
+        expect(line.dialogue).toBe("Hi");
+        expect(session.needsChoice()).toBe(true);
+        await expect(session.next()).rejects.toThrow();
+
+        expect((await session.choose(0)).dialogue).toBe("Hello back");
+        expect((await session.next()).dialogue).toBe("Done");
+        expect(await session.next()).toBeNull();
+        expect(session.isFinished).toBe(true);
+    });
+
+    it("can be iterated over", async () => {
+        const manager = new DialogueManager({ defaultResource: resource });
+        const session = manager.startConversation("Other");
+
+        const lines: Array<string> = [];
+        for await (const line of session) {
+            lines.push(line.dialogue);
+        }
+
+        expect(lines).toEqual(["One", "Two"]);
+    });
+
+    it("keeps its own position alongside other sessions", async () => {
+        const manager = new DialogueManager({ defaultResource: resource });
+        const events: Array<string> = [];
+        manager.addListener("started", () => { events.push("started"); });
+        manager.addListener("finished", () => { events.push("finished"); });
+
+        const first = manager.startConversation("Other");
+        const second = manager.startConversation("Start");
+        await first.next();
+        await second.next();
+        await first.next();
+        expect(await first.next()).toBeNull();
+
+        // The first session finishing doesn't finish the second
+        expect(second.current.dialogue).toBe("Hi");
+        expect((await second.choose(1)).dialogue).toBe("Done");
+        expect(manager.getCurrentLine()).toBeNull();
+        expect(events).toEqual(["started", "started", "finished"]);
+    });
+
+    it("only interrupts itself", async () => {
+        const manager = new DialogueManager({ defaultResource: resource });
+        const first = manager.startConversation("Other");
+        const second = manager.startConversation("Other");
+        await first.next();
+        await second.next();
+
+        first.interrupt();
+
+        expect(first.isFinished).toBe(true);
+        expect(await first.next()).toBeNull();
+        expect((await second.next()).dialogue).toBe("Two");
+    });
+
+    it("stops when its signal is aborted and stops listening once finished", async () => {
+        const manager = new DialogueManager({ defaultResource: resource });
+        const controller = new AbortController();
+        const removeListener = jest.spyOn(controller.signal, "removeEventListener");
+        const session = manager.startConversation("Start", null, controller.signal);
+        await session.next();
+
+        controller.abort();
+
+        expect(session.isFinished).toBe(true);
+        expect(await session.next()).toBeNull();
+        expect(removeListener).toHaveBeenCalledWith("abort", expect.any(Function));
+    });
+
+    it("is interrupted by the manager", async () => {
+        const manager = new DialogueManager({ defaultResource: resource });
+        const session = manager.startConversation("Other");
+        await session.next();
+
+        manager.interrupt();
+
+        expect(await session.next()).toBeNull();
+    });
+});
@@ -0,0 +1,63 @@
+import { compile } from "../src/compiler";
+import { DialogueManager } from "../src/manager";
+
+
+const source = [
+    "# Start",
+    "set visits += 1",
+    "Nathan: Hi",
+    "- Hello",
+    "    Coco: Hello back",
+    "- Bye",
+    "    Coco: Bye then"
+].join("\n");
+
+
+describe("saving and restoring", () => {
+    it("resumes with the same line and responses", async () => {
+        const resource = compile(source);
+        const manager = new DialogueManager({ defaultResource: resource, isStrict: false });
+        await manager.getNextDialogueLine("Start");
+
+        const snapshot = JSON.parse(JSON.stringify(manager.saveState()));
+        expect(snapshot.version).toBe(1);
+
+        const other = new DialogueManager({ isStrict: false });
+        other.loadState(snapshot, resource);
+        const line = other.getCurrentLine();
+
+        expect(line.dialogue).toBe("Hi");
+        expect(line.responses.map(response => response.prompt)).toEqual(["Hello", "Bye"]);
+        expect(other.saveState().isDialogueRunning).toBe(true);
+
+        const next = await other.getNextDialogueLine(line.responses[1].nextId, resource);
+        expect(next.dialogue).toBe("Bye then");
+    });
+
+    it("keeps non-strict variables without running mutations again", async () => {
+        const resource = compile(source);
+        const manager = new DialogueManager({ defaultResource: resource, isStrict: false });
+        await manager.getNextDialogueLine("Start");
+
+        const other = new DialogueManager({ isStrict: false });
+        other.loadState(manager.saveState(), resource);
+        other.getCurrentLine();
+
+        expect(other.saveState().internalState).toEqual({ visits: 1 });
+    });
+
+    it("won't load a snapshot from a different resource", async () => {
+        const manager = new DialogueManager({ defaultResource: compile(source), isStrict: false });
+        await manager.getNextDialogueLine("Start");
+
+        const other = new DialogueManager({ defaultResource: compile("# Start\nNathan: Something else") });
+
+        expect(() => other.loadState(manager.saveState())).toThrow("different dialogue resource");
+    });
+
+    it("won't load a snapshot with an unknown version", () => {
+        const manager = new DialogueManager();
+
+        expect(() => manager.loadState({ ...manager.saveState(), version: 2 })).toThrow("version");
+    });
+});
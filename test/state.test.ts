@@ -0,0 +1,118 @@
+import { compile } from "../src/compiler";
+import { DialogueSyntaxError } from "../src/errors";
+import { parsePath } from "../src/expressions";
+import { DialogueManager } from "../src/manager";
+import { createStateAdapter, createObjectAdapter, createStoreAdapter, getStateAdapter, setPathValue } from "../src/state";
+
+
+describe("state adapters", () => {
+    it("changes nested properties on plain objects", async () => {
+        const state = { player: { gold: 1 } };
+        const manager = new DialogueManager({ defaultResource: compile("# Start\nset player.gold += 2\nNathan: {{player.gold}}"), gameStates: [state] });
+
+        const line = await manager.getNextDialogueLine("Start");
+
+        expect(state.player.gold).toBe(3);
+        expect(line.dialogue).toBe("3");
+    });
+
+    it("passes changes to a game state's own set method", async () => {
+        const changes: Array<[string, any]> = [];
+        const state = {
+            gold: 1,
+            player: { name: "Nathan" },
+            set(property: string, value: any) {
+                changes.push([property, value]);
+                (this as any)[property] = value;
+            }
+        };
+        const manager = new DialogueManager({ defaultResource: compile("# Start\nset gold = 5\nset player.name = \"Coco\"\nNathan: Done"), gameStates: [state] });
+
+        await manager.getNextDialogueLine("Start");
+
+        expect(changes).toEqual([["gold", 5], ["player", { name: "Coco" }]]);
+        expect(state.player.name).toBe("Coco");
+    });
+
+    it("doesn't mistake game states with adapter-like methods for adapters", () => {
+        const state = { has: () => true, get: () => 1, set: () => true, call: () => null, gold: 2 };
+
+        expect(getStateAdapter(state)).not.toBe(state);
+        expect(getStateAdapter(state).get("gold")).toBe(2);
+    });
+
+    it("treats properties that are undefined as missing", async () => {
+        const manager = new DialogueManager({
+            defaultResource: compile("# Start\nNathan: {{gold}}"),
+            gameStates: [{ gold: undefined }, new Map([["gold", undefined]]), { gold: 3 }]
+        });
+
+        const line = await manager.getNextDialogueLine("Start");
+
+        expect(line.dialogue).toBe("3");
+    });
+
+    it("rejects game states that aren't objects", () => {
+        expect(() => getStateAdapter(null)).toThrow("Game states have to be objects (got null)");
+        expect(() => getStateAdapter(5)).toThrow("Game states have to be objects (got number)");
+    });
+
+    it("uses adapters made with createStateAdapter as they are", () => {
+        const adapter = createStateAdapter({ has: () => true, get: () => 1, set: () => true, call: () => null });
+
+        expect(getStateAdapter(adapter)).toBe(adapter);
+    });
+
+    it("applies canSet and transform rules", async () => {
+        const state = { gold: 0, health: 10 };
+        const manager = new DialogueManager({
+            defaultResource: compile("# Start\nset gold = -5\nset health = 0\nNathan: Done"),
+            gameStates: [createObjectAdapter(state, {
+                canSet: property => property != "health",
+                transform: (property, value) => Math.max(0, value)
+            })]
+        });
+
+        await manager.getNextDialogueLine("Start");
+
+        expect(state).toEqual({ gold: 0, health: 10 });
+    });
+
+    it("passes copies of changes to observable stores", async () => {
+        let current: any = { inventory: { sword: false } };
+        const store = { getState: () => current, setState: (partial: any) => { current = { ...current, ...partial }; } };
+        const before = current.inventory;
+        const manager = new DialogueManager({ defaultResource: compile("# Start\nset inventory.sword = true\nNathan: Done"), gameStates: [createStoreAdapter(store)] });
+
+        await manager.getNextDialogueLine("Start");
+
+        expect(current.inventory.sword).toBe(true);
+        expect(before.sword).toBe(false);
+    });
+});
+
+
+describe("unsafe paths", () => {
+    it("can't be parsed", () => {
+        expect(parsePath("player.name")).toEqual(["player", "name"]);
+        expect(parsePath("player.__proto__.polluted")).toBeNull();
+        expect(parsePath("player[\"constructor\"].prototype")).toBeNull();
+    });
+
+    it("can't be set", () => {
+        const target: any = {};
+        expect(() => setPathValue(target, ["__proto__", "polluted"], true, true)).toThrow();
+        expect(({} as any).polluted).toBeUndefined();
+    });
+
+    it("can't be used in dialogue", () => {
+        expect(() => compile("# Start\nset __proto__.polluted = true")).toThrow(DialogueSyntaxError);
+    });
+
+    it("don't reach prototypes through non-strict internal state", async () => {
+        const manager = new DialogueManager({ defaultResource: compile("# Start\nNathan: Hi"), isStrict: false });
+
+        expect(() => manager.setStateValue("__proto__", { polluted: true })).toThrow();
+        expect(({} as any).polluted).toBeUndefined();
+    });
+});
@@ -0,0 +1,85 @@
+import { compile } from "../src/compiler";
+import { PlaythroughFailure, play } from "../src/testing";
+
+
+const resource = compile([
+    "# Shop",
+    "Shopkeeper: Welcome!",
+    "- Buy a sword [if gold >= 5]",
+    "    set gold -= 5",
+    "    do give(\"sword\")",
+    "    do wait(300)",
+    "    Shopkeeper: Enjoy it",
+    "- Leave",
+    "Shopkeeper: Bye",
+    "# Greeting",
+    "% Shopkeeper: Hi",
+    "% Shopkeeper: Hello"
+].join("\n"));
+
+
+describe("playthroughs", () => {
+    it("check lines, responses, state and calls", async () => {
+        const playthrough = play(resource)
+            .from("Shop")
+            .withState({ gold: 10, give: () => {} })
+            .expectLine("Shopkeeper", /welcome/i)
+            .expectResponses(["Buy a sword", "Leave"])
+            .choose("Buy a sword")
+            .expectState({ gold: 5 })
+            .expectCall("give", ["sword"])
+            .expectLine("Enjoy it")
+            .expectLine("Shopkeeper", "Bye")
+            .expectEnd();
+
+        await playthrough;
+
+        expect(playthrough.getWaitedMilliseconds()).toBe(300);
+        expect(playthrough.getCalls().map(call => call.name)).toEqual(["give", "wait"]);
+    });
+
+    it("choose by index and skip lines", async () => {
+        await play(resource)
+            .from("Shop")
+            .withState({ gold: 10, give: () => {} })
+            .choose(0)
+            .skip()
+            .expectLine("Bye")
+            .expectEnd();
+    });
+
+    it("make random lines predictable with a seed", async () => {
+        const pick = async (seed: number) => {
+            const playthrough = play(resource).withSeed(seed).from("Greeting").skip();
+            await playthrough;
+            return playthrough.manager.getHistory()[0].text;
+        }
+
+        expect(await pick(1)).toBe(await pick(1));
+        expect(await pick(2)).toBe(await pick(2));
+    });
+
+    it("fail with the path so far", async () => {
+        const failure: PlaythroughFailure = await Promise.resolve(
+            play(resource)
+                .from("Shop")
+                .withState({ gold: 10, give: () => {} })
+                .choose("Leave")
+                .expectLine("Shopkeeper", "Come again!")
+        ).then(null, error => error);
+
+        expect(failure).toBeInstanceOf(PlaythroughFailure);
+        expect(failure.message).toBe([
+            "Expected a line from \"Shopkeeper\" matching \"Come again!\" but got \"Shopkeeper: Bye\"",
+            "",
+            "Path so far:",
+            "  Shopkeeper: Welcome!",
+            "  > Leave",
+            "  Shopkeeper: Bye  <- here"
+        ].join("\n"));
+    });
+
+    it("fail when the conversation hasn't ended", async () => {
+        await expect(play(resource).from("Shop").withState({ gold: 0 }).expectEnd()).rejects.toThrow(PlaythroughFailure);
+    });
+});
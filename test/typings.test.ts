@@ -0,0 +1,56 @@
+import { compile } from "../src/compiler";
+import { DialogueManager } from "../src/manager";
+import { generateTypings } from "../src/typings";
+
+
+const resource = compile([
+    "# Start",
+    "if gold > 5 and name == \"Coco\"",
+    "    set gold += 1",
+    "    do open_door(1, 2)",
+    "Nathan: {{title}} {{count_items()}}",
+    "set has_key = true"
+].join("\n"));
+
+
+describe("typings", () => {
+    it("describes the properties and functions a resource uses", () => {
+        const typings = generateTypings(resource, { interfaceName: "Save" });
+
+        expect(typings).toContain("export interface Save {");
+        expect(typings).toContain("    gold: number;");
+        expect(typings).toContain("    name: string;");
+        expect(typings).toContain("    has_key: boolean;");
+        expect(typings).toContain("    title: any;");
+        expect(typings).toContain("    count_items(): any;");
+        expect(typings).toContain("    open_door(arg1: number, arg2: number): void | Promise<void>;");
+    });
+
+    it("combines several resources", () => {
+        const typings = generateTypings([resource, compile("# Other\nset coins = 1")]);
+
+        expect(typings).toContain("export interface GameState {");
+        expect(typings).toContain("    gold: number;");
+        expect(typings).toContain("    coins: number;");
+    });
+
+    it("leaves out built in functions", () => {
+        const typings = generateTypings(compile("# Start\ndo wait(1)\nif visited(\"Start\")\n    Nathan: Again"));
+
+        expect(typings).not.toContain("wait");
+        expect(typings).not.toContain("visited");
+    });
+
+    it("checks game states given to the manager", () => {
+        type GameState = { gold: number, name: string };
+
+        const manager = new DialogueManager<GameState>({ gameStates: [{ gold: 1 }, { name: "Coco" }] });
+        // @ts-expect-error
+        new DialogueManager<GameState>({ gameStates: [{ gold: "lots" }] });
+        // @ts-expect-error
+        new DialogueManager<GameState>({ gameStates: [{ silver: 1 }] });
+
+        expect(manager.gameStates[0].gold).toBe(1);
+        expect(manager.gameStates[1].name).toBe("Coco");
+    });
+});
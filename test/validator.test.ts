@@ -0,0 +1,90 @@
+import { compile } from "../src/compiler";
+import { validateResource } from "../src/validator";
+import type { DialogueResource } from "../src/types";
+
+
+describe("validating resources", () => {
+    it("finds nothing wrong with a good resource", () => {
+        const resource = compile([
+            "# Start",
+            "Nathan: Hi",
+            "- Hello",
+            "    Coco: Hello back",
+            "- Bye"
+        ].join("\n"));
+
+        expect(validateResource(resource)).toEqual([]);
+    });
+
+    it("reports references and titles that point at missing lines", () => {
+        const resource: DialogueResource = {
+            titles: { Start: "1", Gone: "9" },
+            lines: {
+                "1": { type: "dialogue", next_id: "2", character: "Nathan", text: "Hi" },
+                "3": { type: "response", next_id: "", responses: [] }
+            }
+        };
+
+        const issues = validateResource(resource);
+
+        expect(issues).toContainEqual(expect.objectContaining({ type: "missing_title_line", lineId: "9", title: "Gone" }));
+        expect(issues).toContainEqual(expect.objectContaining({ type: "dangling_reference", lineId: "1", severity: "error" }));
+        expect(issues).toContainEqual(expect.objectContaining({ type: "empty_responses", lineId: "3" }));
+        expect(issues).toContainEqual(expect.objectContaining({ type: "unreachable_line", lineId: "3", severity: "warning" }));
+    });
+
+    it("only checks gotos into other resources when they are given", () => {
+        const resource = compile("# Start\n=> chapter2/Shop");
+        const chapter2 = compile("# Market\nNathan: Hi");
+
+        expect(validateResource(resource)).toEqual([]);
+        expect(validateResource(resource, { resources: { chapter2 } })).toEqual([
+            expect.objectContaining({ type: "dangling_reference" })
+        ]);
+    });
+
+    it("reports expressions that weren't exported properly", () => {
+        const resource: DialogueResource = {
+            titles: { Start: "1" },
+            lines: {
+                "1": { type: "condition", next_id: "", condition: { lhs_type: "error" }, next_conditional_id: "", next_id_after: "" }
+            }
+        };
+
+        expect(validateResource(resource)).toEqual([expect.objectContaining({ type: "error_expression", lineId: "1" })]);
+    });
+
+    it("reports expressions that can't be parsed", () => {
+        const resource: DialogueResource = {
+            titles: { Start: "1" },
+            lines: {
+                "1": { type: "condition", next_id: "", condition: { lhs_type: "variable", lhs: null, operator: "==" } as any, next_conditional_id: "", next_id_after: "" }
+            }
+        };
+
+        expect(validateResource(resource)).toEqual([expect.objectContaining({ type: "error_expression", lineId: "1" })]);
+        expect(validateResource(resource, { knownNames: [] })).toEqual([expect.objectContaining({ type: "error_expression", lineId: "1" })]);
+    });
+
+    it("reports loops that never show any dialogue", () => {
+        const resource = compile("# Start\n=> Again\n# Again\n=> Start");
+
+        expect(validateResource(resource)).toContainEqual(expect.objectContaining({ type: "goto_cycle" }));
+    });
+
+    it("reports names that no game state has", () => {
+        const resource = compile([
+            "# Start",
+            "Nathan: Hi {{name}}",
+            "if has_key",
+            "    do open_door()",
+            "do debug(\"hi\")"
+        ].join("\n"));
+
+        const issues = validateResource(resource, { knownNames: ["name"] });
+
+        expect(issues.map(issue => issue.type)).toEqual(["unknown_name", "unknown_name"]);
+        expect(issues[0].message).toContain("'has_key'");
+        expect(issues[1].message).toContain("'open_door'");
+    });
+});
@@ -0,0 +1,88 @@
+import { compile } from "../src/compiler";
+import { DialogueManager } from "../src/manager";
+import { extractTags } from "../src/markup";
+import { generateVoiceManifest, getVoiceFilename } from "../src/voice";
+
+
+const resource = compile([
+    "# Start",
+    "Nathan: I can't believe it. [#angry, #portrait=shouting]",
+    "Coco: Me neither [#voice=coco_intro]",
+    "Nathan: Fine [#id=fine_1]",
+    "- Calm down [#nervous]",
+    "- Leave"
+].join("\n"));
+
+
+describe("line tags", () => {
+    it("are pulled out of text", () => {
+        expect(extractTags("Hi there [#happy, #portrait = angry]")).toEqual({
+            text: "Hi there",
+            tags: { happy: true, portrait: "angry" }
+        });
+    });
+
+    it("end up on lines and responses", async () => {
+        const manager = new DialogueManager({ defaultResource: resource });
+
+        let line = await manager.getNextDialogueLine("Start");
+        expect(line.dialogue).toBe("I can't believe it.");
+        expect(line.tags).toEqual({ angry: true, portrait: "shouting" });
+
+        line = await manager.getNextDialogueLine(line.nextId);
+        line = await manager.getNextDialogueLine(line.nextId);
+        expect(line.stableId).toBe("fine_1");
+        expect(line.responses[0].prompt).toBe("Calm down");
+        expect(line.responses[0].tags).toEqual({ nervous: true });
+    });
+
+    it("give lines stable IDs that don't change when other lines are added", () => {
+        const updated = compile([
+            "# Start",
+            "Nathan: New line",
+            "Nathan: I can't believe it. [#angry, #portrait=shouting]"
+        ].join("\n"));
+        const before = resource.lines[resource.titles["Start"]];
+        const after = updated.lines[updated.lines[updated.titles["Start"]].next_id];
+
+        expect(after.stable_id).toBe(before.stable_id);
+    });
+});
+
+
+describe("voice over", () => {
+    it("lists every spoken line with a suggested filename", () => {
+        const manifest = generateVoiceManifest(resource, { extension: "wav" });
+
+        expect(manifest.map(entry => [entry.character, entry.text, entry.filename])).toEqual([
+            ["Nathan", "I can't believe it.", "nathan/" + manifest[0].stableId + ".wav"],
+            ["Coco", "Me neither", "coco_intro.wav"],
+            ["Nathan", "Fine", "nathan/fine_1.wav"]
+        ]);
+    });
+
+    it("can include responses", () => {
+        const manifest = generateVoiceManifest(resource, { includeResponses: true });
+
+        expect(manifest.filter(entry => entry.filename.indexOf("responses/") == 0)).toHaveLength(2);
+    });
+
+    it("names files after the character", () => {
+        expect(getVoiceFilename("Old Man!", "abc")).toBe("old_man/abc.ogg");
+        expect(getVoiceFilename("", "abc", {}, ".mp3")).toBe("narrator/abc.mp3");
+        expect(getVoiceFilename("Nathan", "abc", { voice: "intro.wav" })).toBe("intro.wav");
+    });
+
+    it("finds clips for lines at runtime", async () => {
+        const manager = new DialogueManager({ defaultResource: resource, voiceAssets: { fine_1: "clips/fine.ogg" } });
+        const withManifest = new DialogueManager({ defaultResource: resource, voiceAssets: generateVoiceManifest(resource) });
+
+        const line = await manager.getNextDialogueLine("Start");
+        const fine = await manager.getNextDialogueLine((await manager.getNextDialogueLine(line.nextId)).nextId);
+
+        expect(manager.getVoiceAsset(line)).toBeNull();
+        expect(manager.getVoiceAsset(fine)).toBe("clips/fine.ogg");
+        expect(withManifest.getVoiceAsset(fine)).toBe("nathan/fine_1.ogg");
+        expect(new DialogueManager().getVoiceAsset(fine)).toBe("nathan/fine_1.ogg");
+    });
+});
@@ -0,0 +1,98 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { compile } from "../src/compiler";
+import { BadExportError } from "../src/errors";
+import { DialogueManager } from "../src/manager";
+import { watchResource } from "../src/watch";
+
+
+const source = [
+    "# Start",
+    "Nathan: Hi"
+].join("\n");
+
+
+/**
+ * Wait for a callback to be called (or fail after a while)
+ * @param register Passes the callback on to whatever will call it
+ * @returns The value the callback was called with
+ */
+function waitFor<T>(register: (resolve: (value: T) => void) => void): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error("Timed out")), 5000);
+        register(value => {
+            clearTimeout(timer);
+            resolve(value);
+        });
+    });
+}
+
+
+describe("watching resources", () => {
+    let directory: string;
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "saywhat-watch-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("reloads a changed file", async () => {
+        const file = path.join(directory, "dialogue.json");
+        const resource = compile(source);
+        fs.writeFileSync(file, JSON.stringify(resource));
+
+        const manager = new DialogueManager({ defaultResource: resource });
+        const reloaded = waitFor<string>(resolve => {
+            const watcher = watchResource(manager, file, {
+                debounce: 10,
+                onReload: () => {
+                    watcher.close();
+                    resolve(manager.defaultResource.lines[manager.defaultResource.titles["Start"]].text);
+                }
+            });
+        });
+        fs.writeFileSync(file, JSON.stringify(compile("# Start\nNathan: Hello")));
+
+        expect(await reloaded).toBe("Hello");
+    });
+
+    it("passes errors to the manager's error listeners by default", async () => {
+        const file = path.join(directory, "dialogue.json");
+        fs.writeFileSync(file, JSON.stringify(compile(source)));
+
+        const manager = new DialogueManager({ defaultResource: compile(source) });
+        const failed = waitFor<Error>(resolve => manager.addListener("error", ({ error }) => resolve(error)));
+        const watcher = watchResource(manager, file, { debounce: 10 });
+        fs.writeFileSync(file, "{ \"titles\": ");
+
+        try {
+            expect(await failed).toBeInstanceOf(Error);
+        } finally {
+            watcher.close();
+        }
+    });
+
+    it("doesn't load a JSON file that is only partly written", async () => {
+        const file = path.join(directory, "dialogue.json");
+        const resource = compile(source);
+        fs.writeFileSync(file, JSON.stringify(resource));
+
+        const manager = new DialogueManager({ defaultResource: resource });
+        let watcher: { close(): void };
+        const failed = waitFor<Error>(resolve => {
+            watcher = watchResource(manager, file, { debounce: 10, onError: resolve });
+        });
+        fs.writeFileSync(file, JSON.stringify({ titles: resource.titles }));
+
+        try {
+            expect(await failed).toBeInstanceOf(BadExportError);
+            expect(manager.defaultResource).toBe(resource);
+        } finally {
+            watcher.close();
+        }
+    });
+});